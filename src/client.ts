@@ -0,0 +1,47 @@
+import { HttpClient, HttpClientOptions } from "./core/http";
+import { MetricsRegistry } from "./core/metrics";
+import { ServerAPI } from "./endpoints/server";
+import { PlayersAPI } from "./endpoints/players";
+import { LogsAPI } from "./endpoints/logs";
+import { CommandsAPI } from "./endpoints/commands";
+import { EventStream, EventStreamOptions } from "./services/events";
+import { CommandQueue, CommandQueueOptions } from "./services/command-queue";
+import { PlayerResolver } from "./services/player-resolver";
+
+export type PRCOptions = Omit<HttpClientOptions, "retries"> & {
+  retries?: number;
+  events?: EventStreamOptions;
+  commandQueue?: CommandQueueOptions;
+};
+
+export class PRC {
+  readonly http: HttpClient;
+  readonly metrics: MetricsRegistry;
+  readonly server: ServerAPI;
+  readonly players: PlayersAPI;
+  readonly logs: LogsAPI;
+  readonly commands: CommandsAPI;
+  readonly events: EventStream;
+  readonly commandQueue: CommandQueue;
+  /** Identity index fed by every response this client receives. */
+  readonly resolver: PlayerResolver;
+
+  constructor(opts: PRCOptions) {
+    const http = (this.http = new HttpClient(opts));
+    this.metrics = http.metrics;
+    this.resolver = new PlayerResolver({ clock: opts.clock });
+    http.use(this.resolver.hooks());
+    this.server = new ServerAPI(http);
+    this.players = new PlayersAPI(http);
+    this.logs = new LogsAPI(http);
+    this.commands = new CommandsAPI(this.server);
+    this.events = new EventStream(this.logs, this.players, {
+      clock: opts.clock,
+      ...opts.events,
+    });
+    this.commandQueue = new CommandQueue(this.server, this.logs, {
+      clock: opts.clock,
+      ...opts.commandQueue,
+    });
+  }
+}
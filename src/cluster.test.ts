@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRCCluster } from "./cluster";
+import { ServerOfflineError } from "./core/errors";
+import { createMockServer, settle } from "./testing";
+import { VirtualClock } from "./utils/clock";
+
+/* Two mock servers behind one `fetch`, routed by server key. */
+function setup(options: { sharedBudget?: boolean } = {}) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const now = () => clock.now();
+  const mocks = {
+    main: createMockServer({ serverKey: "main-key", now, rateLimit: false }),
+    training: createMockServer({
+      serverKey: "training-key",
+      name: "Training",
+      now,
+      rateLimit: false,
+    }),
+  };
+  const cluster = new PRCCluster({
+    servers: { main: "main-key", training: "training-key" },
+    clock,
+    fetch: (input, init) => {
+      const key = new Headers(init?.headers).get("server-key");
+      const mock = key === "main-key" ? mocks.main : mocks.training;
+      return mock.fetch(input, init);
+    },
+    ...options,
+  });
+  return { clock, mocks, cluster };
+}
+
+describe("PRCCluster", () => {
+  it("fans calls out and reports each server's result", async () => {
+    const { clock, mocks, cluster } = setup();
+    mocks.training.setOffline(true);
+
+    const [main, training] = await settle(clock, cluster.status());
+
+    assert.equal(main.server, "main");
+    assert.ok(main.ok && main.value.Name === "Mock Server");
+    assert.equal(training.server, "training");
+    assert.ok(!training.ok && training.error instanceof ServerOfflineError);
+  });
+
+  it("runs a command on a subset of servers", async () => {
+    const { clock, mocks, cluster } = setup();
+
+    const results = await settle(
+      clock,
+      cluster.command(":m hello", ["training"])
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.server, result.ok]),
+      [["training", true]]
+    );
+    assert.equal(mocks.main.requests.length, 0);
+    assert.equal(mocks.training.requests.length, 1);
+  });
+
+  it("keeps separate budgets per server unless shared", async () => {
+    for (const sharedBudget of [false, true]) {
+      const { clock, mocks, cluster } = setup({ sharedBudget });
+
+      await settle(clock, cluster.command(":m hello"));
+
+      const gap = mocks.training.requests[0].at - mocks.main.requests[0].at;
+      // A shared budget paces the second command one interval behind.
+      assert.equal(gap, sharedBudget ? 1000 : 0);
+    }
+  });
+
+  it("registers, looks up and removes servers by name", () => {
+    const { cluster } = setup();
+
+    assert.throws(() => cluster.add("main", "other-key"), /already registered/);
+    assert.throws(() => cluster.get("events"), /Unknown server/);
+    cluster.add("events", "events-key");
+    assert.deepEqual(cluster.names, ["main", "training", "events"]);
+
+    assert.equal(cluster.remove("events"), true);
+    assert.equal(cluster.has("events"), false);
+    assert.equal(cluster.size, 2);
+  });
+});
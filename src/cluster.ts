@@ -0,0 +1,122 @@
+import { PRC, PRCOptions } from "./client";
+import { RateLimiterManager } from "./core/limiter";
+import { limiterStoreKey } from "./core/http";
+import type { TPlayersResponse, TServerStatus } from "./types/responses";
+
+export type PRCClusterOptions = Omit<PRCOptions, "serverKey" | "limiters"> & {
+  /** Server keys by a name of your choosing, e.g. `{ main: "...", training: "..." }`. */
+  servers: Record<string, string>;
+  /**
+   * Share a single rate limiter budget between every server. PRC enforces
+   * limits per global API key, so this defaults to `true` when `globalKey` is
+   * set and to `false` otherwise (limits are then per server key).
+   */
+  sharedBudget?: boolean;
+};
+
+export type ClusterResult<T> =
+  | { server: string; ok: true; value: T }
+  | { server: string; ok: false; error: unknown };
+
+/**
+ * Manages one `PRC` client per server key and fans calls out to all of them.
+ * Fan-out helpers never reject; each server reports its own result or error.
+ */
+export class PRCCluster {
+  private readonly clients = new Map<string, PRC>();
+  private readonly options: Omit<PRCClusterOptions, "servers">;
+  private readonly limiters?: RateLimiterManager;
+
+  constructor(options: PRCClusterOptions) {
+    const { servers, ...shared } = options;
+    this.options = shared;
+
+    if (shared.sharedBudget ?? Boolean(shared.globalKey)) {
+      this.limiters = new RateLimiterManager({
+        requestsPerMinute: shared.rpm ?? 60,
+        maxConcurrency: shared.maxConcurrency,
+        maxQueueLength: shared.maxQueueLength,
+        debug: shared.debug,
+        clock: shared.clock,
+        store: shared.rateLimitStore,
+        storeKey: limiterStoreKey(
+          shared.globalKey ?? Object.values(servers).join(",")
+        ),
+      });
+    }
+
+    for (const [name, serverKey] of Object.entries(servers)) {
+      this.add(name, serverKey);
+    }
+  }
+
+  get names(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  get size() {
+    return this.clients.size;
+  }
+
+  add(name: string, serverKey: string): PRC {
+    if (this.clients.has(name)) {
+      throw new Error(
+        `Server "${name}" is already registered in this cluster.`
+      );
+    }
+    const client = new PRC({
+      ...this.options,
+      serverKey,
+      limiters: this.limiters,
+    });
+    this.clients.set(name, client);
+    return client;
+  }
+
+  remove(name: string) {
+    const client = this.clients.get(name);
+    client?.events.stop();
+    return this.clients.delete(name);
+  }
+
+  has(name: string) {
+    return this.clients.has(name);
+  }
+
+  get(name: string): PRC {
+    const client = this.clients.get(name);
+    if (!client) {
+      throw new Error(`Unknown server "${name}".`);
+    }
+    return client;
+  }
+
+  /** Runs `fn` against every server (or the given subset) concurrently. */
+  async each<T>(
+    fn: (client: PRC, server: string) => Promise<T>,
+    servers: string[] = this.names
+  ): Promise<ClusterResult<T>[]> {
+    return Promise.all(
+      servers.map(async (server): Promise<ClusterResult<T>> => {
+        try {
+          const value = await fn(this.get(server), server);
+          return { server, ok: true, value };
+        } catch (error) {
+          return { server, ok: false, error };
+        }
+      })
+    );
+  }
+
+  status(servers?: string[]): Promise<ClusterResult<TServerStatus>[]> {
+    return this.each((client) => client.server.status(), servers);
+  }
+
+  players(servers?: string[]): Promise<ClusterResult<TPlayersResponse>[]> {
+    return this.each((client) => client.players.list(), servers);
+  }
+
+  command(command: string, servers?: string[]) {
+    return this.each((client) => client.server.command(command), servers);
+  }
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { FileCacheStore, MemoryCacheStore } from "./cache";
+
+const entry = { etag: '"1"', data: 1 };
+
+describe("MemoryCacheStore", () => {
+  it("expires entries by the store's clock", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const store = new MemoryCacheStore({ clock, defaultTtlMs: 1000 });
+
+    store.set("key", entry);
+    await clock.advance(999);
+    assert.deepEqual(store.get("key"), entry);
+    await clock.advance(1);
+    assert.equal(store.get("key"), undefined);
+  });
+
+  it("expires the client's default cache by the client's clock", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const mock = createMockServer({ serverKey: "key", rateLimit: false });
+    const api = new PRC({
+      serverKey: "key",
+      fetch: mock.fetch,
+      clock,
+      cacheTtlMs: 5000,
+    });
+
+    await api.server.status();
+    await clock.advance(4000);
+    // A 304 stores the payload again, for another `cacheTtlMs`.
+    await api.server.status();
+    await clock.advance(5000);
+    await api.server.status();
+
+    assert.deepEqual(
+      mock.requests.map((request) => request.headers.has("if-none-match")),
+      [false, true, false]
+    );
+  });
+});
+
+describe("FileCacheStore", () => {
+  const dirs: string[] = [];
+  after(() => Promise.all(dirs.map((dir) => rm(dir, { recursive: true }))));
+
+  async function path() {
+    const dir = await mkdtemp(join(tmpdir(), "liberlc-cache-"));
+    dirs.push(dir);
+    return join(dir, "nested", "cache.json");
+  }
+
+  it("keeps every entry when several stores write concurrently", async () => {
+    const file = await path();
+    const stores = [0, 1, 2].map(() => new FileCacheStore({ path: file }));
+
+    await Promise.all(
+      Array.from({ length: 30 }, (_, i) =>
+        stores[i % stores.length].set(`key-${i}`, { etag: `"${i}"`, data: i })
+      )
+    );
+
+    const reader = new FileCacheStore({ path: file });
+    for (let i = 0; i < 30; i++) {
+      assert.deepEqual(await reader.get(`key-${i}`), {
+        etag: `"${i}"`,
+        data: i,
+      });
+    }
+  });
+
+  it("expires entries by the store's clock", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const store = new FileCacheStore({ path: await path(), clock });
+
+    await store.set("key", entry, 1000);
+    await clock.advance(999);
+    assert.deepEqual(await store.get("key"), entry);
+    await clock.advance(1);
+    assert.equal(await store.get("key"), undefined);
+  });
+});
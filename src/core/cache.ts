@@ -0,0 +1,199 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { type Clock, systemClock } from "../utils/clock";
+import { withFileLock } from "../utils/file-lock";
+
+export type CacheEntry<T = unknown> = {
+  etag: string;
+  data: T;
+  /** When the payload was last confirmed by the API (ms since epoch). */
+  storedAt?: number;
+};
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Storage used by `HttpClient` for ETag-validated payloads. Implementations may
+ * be synchronous or asynchronous, which makes it easy to back the cache with
+ * Redis or any other shared store.
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<CacheEntry | undefined>;
+  /** `ttlMs` is optional; stores may ignore it or apply their own default. */
+  set(key: string, entry: CacheEntry, ttlMs?: number): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+}
+
+type StoredEntry = { entry: CacheEntry; expiresAt?: number };
+
+function expiry(ttlMs: number | undefined, now: number) {
+  return typeof ttlMs === "number" && ttlMs > 0 ? now + ttlMs : undefined;
+}
+
+function isExpired(stored: StoredEntry, now: number) {
+  return typeof stored.expiresAt === "number" && stored.expiresAt <= now;
+}
+
+export type MemoryCacheStoreOptions = {
+  /** Maximum number of entries before the least recently used is evicted. */
+  maxEntries?: number;
+  /** TTL applied when `set` is called without one. */
+  defaultTtlMs?: number;
+  /** Time source for TTLs; use the client's `VirtualClock` in tests. */
+  clock?: Clock;
+};
+
+/** In-process LRU cache. This is the default store used by `HttpClient`. */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, StoredEntry>();
+  private readonly maxEntries: number;
+  private readonly defaultTtlMs?: number;
+  private readonly clock: Clock;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500);
+    this.defaultTtlMs = options.defaultTtlMs;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const stored = this.entries.get(key);
+    if (!stored) return undefined;
+    if (isExpired(stored, this.clock.now())) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark the entry as most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  set(key: string, entry: CacheEntry, ttlMs?: number) {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      entry,
+      expiresAt: expiry(ttlMs ?? this.defaultTtlMs, this.clock.now()),
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export type FileCacheStoreOptions = {
+  /** Path of the JSON file backing the cache. */
+  path: string;
+  /** TTL applied when `set` is called without one. */
+  defaultTtlMs?: number;
+  /** Time source for TTLs; use the client's `VirtualClock` in tests. */
+  clock?: Clock;
+  /** Give up acquiring the write lock after this long. Defaults to 5s. */
+  lockTimeoutMs?: number;
+  /** Locks older than this are assumed to belong to a crashed process. Defaults to 10s. */
+  staleLockMs?: number;
+};
+
+/**
+ * Cache persisted to a JSON file. The file is re-read on every access and
+ * replaced atomically on writes under a lock file, so several processes can
+ * share it and the cache survives restarts.
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly path: string;
+  private readonly defaultTtlMs?: number;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+  private readonly clock: Clock;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: FileCacheStoreOptions) {
+    this.path = options.path;
+    this.defaultTtlMs = options.defaultTtlMs;
+    this.lockPath = `${options.path}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5_000;
+    this.staleLockMs = options.staleLockMs ?? 10_000;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entries = await this.read();
+    const stored = entries[key];
+    if (!stored || isExpired(stored, this.clock.now())) {
+      return undefined;
+    }
+    return stored.entry;
+  }
+
+  set(key: string, entry: CacheEntry, ttlMs?: number) {
+    return this.update((entries) => {
+      entries[key] = {
+        entry,
+        expiresAt: expiry(ttlMs ?? this.defaultTtlMs, this.clock.now()),
+      };
+    });
+  }
+
+  delete(key: string) {
+    return this.update((entries) => {
+      delete entries[key];
+    });
+  }
+
+  private update(mutate: (entries: Record<string, StoredEntry>) => void) {
+    // Writes from this process are serialised here; the lock file keeps
+    // other processes (and other stores on the same path) out meanwhile.
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() =>
+        withFileLock(
+          this.lockPath,
+          async () => {
+            const entries = await this.read();
+            mutate(entries);
+            const now = this.clock.now();
+            for (const [key, stored] of Object.entries(entries)) {
+              if (isExpired(stored, now)) delete entries[key];
+            }
+            const tmp = `${this.path}.${process.pid}.tmp`;
+            await writeFile(tmp, JSON.stringify(entries));
+            await rename(tmp, this.path);
+          },
+          { timeoutMs: this.lockTimeoutMs, staleMs: this.staleLockMs }
+        )
+      );
+    return this.writing;
+  }
+
+  private async read(): Promise<Record<string, StoredEntry>> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      // A corrupt cache file is treated as empty and overwritten on next write.
+      return {};
+    }
+  }
+}
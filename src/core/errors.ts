@@ -0,0 +1,325 @@
+import type { ZodError } from "zod";
+
+export enum ErrorCode {
+  /** Unknown error occurred. If this is persistent, contact PRC via an API ticket. */
+  Unknown = 0,
+
+  /** An error occurred communicating with Roblox / the in-game private server. */
+  RobloxCommunicationError = 1001,
+
+  /** An internal system error occurred. */
+  InternalSystemError = 1002,
+
+  /** You did not provide a server-key. */
+  MissingServerKey = 2000,
+
+  /** You provided an incorrectly formatted server-key. */
+  MalformedServerKey = 2001,
+
+  /** You provided an invalid (or expired) server-key. */
+  InvalidServerKey = 2002,
+
+  /** You provided an invalid global API key. */
+  InvalidGlobalApiKey = 2003,
+
+  /** Your server-key is currently banned from accessing the API. */
+  BannedServerKey = 2004,
+
+  /** You did not provide a valid command in the request body. */
+  InvalidCommand = 3001,
+
+  /** The server you are attempting to reach is currently offline (has no players). */
+  ServerOffline = 3002,
+
+  /** You are being rate limited. */
+  RateLimited = 4001,
+
+  /** The command you are attempting to run is restricted. */
+  RestrictedCommand = 4002,
+
+  /** The message you're trying to send is prohibited. */
+  ProhibitedMessage = 4003,
+
+  /** The resource you are accessing is restricted. */
+  RestrictedResource = 9998,
+
+  /** The module running on the in-game server is out of date, please kick all and try again. */
+  OutdatedModule = 9999,
+}
+
+/**
+ * Base class of every error thrown by the client. `isRetryable` tells whether
+ * the same request may succeed when repeated, and `isUserFacing` whether the
+ * message is meaningful to show to the person who triggered the call (e.g. a
+ * moderator running a command) rather than only to the operator.
+ */
+export abstract class PRCError extends Error {
+  abstract readonly isRetryable: boolean;
+  abstract readonly isUserFacing: boolean;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 503]);
+const RETRYABLE_CODES = new Set<ErrorCode>([
+  ErrorCode.RobloxCommunicationError,
+  ErrorCode.InternalSystemError,
+  ErrorCode.RateLimited,
+]);
+
+function isRetryableResponse(status: number, code?: ErrorCode) {
+  // A known PRC error code is more specific than the status: a 500 carrying
+  // `InvalidServerKey` will fail again no matter how often it is repeated.
+  if (code != null && code !== ErrorCode.Unknown) {
+    return RETRYABLE_CODES.has(code);
+  }
+  return RETRYABLE_STATUSES.has(status);
+}
+
+export class HttpError extends PRCError {
+  public readonly status: number;
+  public readonly retryAfterMs?: number;
+  public readonly code?: ErrorCode;
+  public readonly commandId?: string;
+  public readonly rawBody?: string;
+  public readonly details?: unknown;
+  public readonly isRetryable: boolean;
+  public readonly isUserFacing: boolean = false;
+
+  constructor(
+    status: number,
+    message: string,
+    retryAfterMs?: number,
+    extra?: {
+      code?: ErrorCode;
+      commandId?: string;
+      rawBody?: string;
+      details?: unknown;
+    }
+  ) {
+    const readableMessage = `[${status}${
+      extra?.code ? `:${extra.code}` : ""
+    }] ${message}`;
+
+    super(readableMessage);
+    this.name = "HttpError";
+    this.isRetryable = isRetryableResponse(status, extra?.code);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.code = extra?.code;
+    this.commandId = extra?.commandId;
+    this.rawBody = extra?.rawBody;
+    this.details = extra?.details;
+  }
+
+  format(): string {
+    return [
+      `HTTP ${this.status}${this.code ? ` (Code ${this.code})` : ""}`,
+      `Message: ${this.message.replace(/^\[\d+\] /, "")}`,
+      this.commandId ? `Command ID: ${this.commandId}` : null,
+      this.retryAfterMs ? `Retry After: ${this.retryAfterMs}ms` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+}
+
+type HttpErrorExtra = ConstructorParameters<typeof HttpError>[3];
+
+/** `429` / `ErrorCode.RateLimited`. Retried automatically, honouring `Retry-After`. */
+export class RateLimitError extends HttpError {
+  override readonly isRetryable = true;
+
+  constructor(...args: ConstructorParameters<typeof HttpError>) {
+    super(...args);
+    this.name = "RateLimitError";
+  }
+}
+
+/** `ErrorCode.ServerOffline`: the private server has no players. */
+export class ServerOfflineError extends HttpError {
+  override readonly isRetryable = false;
+  override readonly isUserFacing = true;
+
+  constructor(...args: ConstructorParameters<typeof HttpError>) {
+    super(...args);
+    this.name = "ServerOfflineError";
+  }
+}
+
+/** Missing, malformed, invalid or banned server / global keys (2000–2004). */
+export class AuthError extends HttpError {
+  override readonly isRetryable = false;
+
+  constructor(...args: ConstructorParameters<typeof HttpError>) {
+    super(...args);
+    this.name = "AuthError";
+  }
+}
+
+/** The command was invalid, restricted or contained a prohibited message. */
+export class CommandRejectedError extends HttpError {
+  override readonly isRetryable = false;
+  override readonly isUserFacing = true;
+
+  constructor(...args: ConstructorParameters<typeof HttpError>) {
+    super(...args);
+    this.name = "CommandRejectedError";
+  }
+}
+
+/** The in-game module is out of date; the server must be restarted first. */
+export class ModuleOutdatedError extends HttpError {
+  override readonly isRetryable = false;
+  override readonly isUserFacing = true;
+
+  constructor(...args: ConstructorParameters<typeof HttpError>) {
+    super(...args);
+    this.name = "ModuleOutdatedError";
+  }
+}
+
+/** The response body was not valid JSON or did not match the expected schema. */
+export class SchemaValidationError extends PRCError {
+  readonly isRetryable = false;
+  readonly isUserFacing = false;
+  public readonly url: string;
+  public readonly issues: ZodError["issues"];
+  public readonly cause?: unknown;
+
+  constructor(
+    url: string,
+    message: string,
+    extra?: { issues?: ZodError["issues"]; cause?: unknown }
+  ) {
+    super(message);
+    this.name = "SchemaValidationError";
+    this.url = url;
+    this.issues = extra?.issues ?? [];
+    this.cause = extra?.cause;
+  }
+}
+
+/**
+ * The request was cancelled through its `AbortSignal` before it completed,
+ * either while queued in the limiter, during a back-off, or in flight.
+ */
+export class AbortError extends PRCError {
+  readonly isRetryable: boolean = false;
+  readonly isUserFacing: boolean = false;
+  public readonly cause?: unknown;
+
+  constructor(message = "Request aborted", cause?: unknown) {
+    super(message);
+    this.name = "AbortError";
+    this.cause = cause;
+  }
+}
+
+/** The request did not complete within its `timeoutMs`. */
+export class TimeoutError extends AbortError {
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The limiter queue was full: either this request was rejected on arrival or
+ * it was evicted to make room for higher priority work.
+ */
+export class QueueFullError extends PRCError {
+  readonly isRetryable = false;
+  readonly isUserFacing = false;
+  public readonly maxQueueLength: number;
+
+  constructor(maxQueueLength: number, message?: string) {
+    super(message ?? `Rate limiter queue is full (${maxQueueLength} tasks)`);
+    this.name = "QueueFullError";
+    this.maxQueueLength = maxQueueLength;
+  }
+}
+
+/** Picks the most specific `HttpError` subclass for a failed response. */
+export function createHttpError(
+  status: number,
+  message: string,
+  retryAfterMs?: number,
+  extra?: HttpErrorExtra
+): HttpError {
+  switch (extra?.code) {
+    case ErrorCode.MissingServerKey:
+    case ErrorCode.MalformedServerKey:
+    case ErrorCode.InvalidServerKey:
+    case ErrorCode.InvalidGlobalApiKey:
+    case ErrorCode.BannedServerKey:
+      return new AuthError(status, message, retryAfterMs, extra);
+    case ErrorCode.InvalidCommand:
+    case ErrorCode.RestrictedCommand:
+    case ErrorCode.ProhibitedMessage:
+      return new CommandRejectedError(status, message, retryAfterMs, extra);
+    case ErrorCode.ServerOffline:
+      return new ServerOfflineError(status, message, retryAfterMs, extra);
+    case ErrorCode.OutdatedModule:
+      return new ModuleOutdatedError(status, message, retryAfterMs, extra);
+    case ErrorCode.RateLimited:
+      return new RateLimitError(status, message, retryAfterMs, extra);
+  }
+  if (status === 429) {
+    return new RateLimitError(status, message, retryAfterMs, extra);
+  }
+  return new HttpError(status, message, retryAfterMs, extra);
+}
+
+export function isPRCError(error: unknown): error is PRCError {
+  return error instanceof PRCError;
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+  return error instanceof HttpError;
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof RateLimitError;
+}
+
+export function isServerOfflineError(
+  error: unknown
+): error is ServerOfflineError {
+  return error instanceof ServerOfflineError;
+}
+
+export function isAuthError(error: unknown): error is AuthError {
+  return error instanceof AuthError;
+}
+
+export function isCommandRejectedError(
+  error: unknown
+): error is CommandRejectedError {
+  return error instanceof CommandRejectedError;
+}
+
+export function isModuleOutdatedError(
+  error: unknown
+): error is ModuleOutdatedError {
+  return error instanceof ModuleOutdatedError;
+}
+
+export function isSchemaValidationError(
+  error: unknown
+): error is SchemaValidationError {
+  return error instanceof SchemaValidationError;
+}
+
+export function isAbortError(error: unknown): error is AbortError {
+  return error instanceof AbortError;
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError;
+}
+
+export function isQueueFullError(error: unknown): error is QueueFullError {
+  return error instanceof QueueFullError;
+}
@@ -0,0 +1,78 @@
+import type { RateHeaders } from "../utils/headers";
+
+export type RequestHookContext = {
+  url: string;
+  method: string;
+  /** 0 for the first try, incremented on every retry. */
+  attempt: number;
+  /** Copy of the outgoing headers with `server-key` and `authorization` redacted. */
+  headers: Headers;
+  /** Tasks waiting in the limiter for this path when the request was queued. */
+  queueDepth: number;
+};
+
+export type ResponseHookContext = RequestHookContext & {
+  status: number;
+  latencyMs: number;
+  rate: RateHeaders;
+};
+
+export type RetryHookContext = RequestHookContext & {
+  error: unknown;
+  waitMs: number;
+};
+
+export type RateLimitHookContext = ResponseHookContext & {
+  retryAfterMs?: number;
+};
+
+export type CacheHitHookContext = RequestHookContext &
+  Partial<Pick<ResponseHookContext, "status" | "latencyMs" | "rate">> & {
+    /**
+     * `not-modified` for a real 304 and `etag-match` when the ETag was
+     * unchanged; both follow a response. `fresh` and `stale` were served from
+     * a cache policy without a request (`stale` also triggers a revalidation).
+     */
+    kind: "not-modified" | "etag-match" | "fresh" | "stale";
+  };
+
+export type DataHookContext = RequestHookContext & {
+  /** Validated payload, exactly as returned to the caller. */
+  data: unknown;
+  /** `true` when the payload came from the cache rather than the response body. */
+  cached: boolean;
+};
+
+export type ErrorHookContext = RequestHookContext & {
+  error: unknown;
+  /** Time from the first attempt until the request was given up. */
+  latencyMs: number;
+};
+
+/**
+ * Lifecycle callbacks for `HttpClient`. Hooks are observers: they run
+ * synchronously, their return values are ignored and errors they throw are
+ * swallowed so they can never break a request.
+ */
+export type HttpClientHooks = {
+  onRequest?: (ctx: RequestHookContext) => void;
+  onResponse?: (ctx: ResponseHookContext) => void;
+  onRetry?: (ctx: RetryHookContext) => void;
+  onRateLimit?: (ctx: RateLimitHookContext) => void;
+  onCacheHit?: (ctx: CacheHitHookContext) => void;
+  onData?: (ctx: DataHookContext) => void;
+  onError?: (ctx: ErrorHookContext) => void;
+};
+
+/** Plain copy of `headers` with sensitive values (matched case-insensitively) masked. */
+export function redactHeaders(
+  headers: Headers,
+  names: string[] = ["server-key", "authorization"]
+): Record<string, string> {
+  const hidden = new Set(names.map((name) => name.toLowerCase()));
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = hidden.has(key.toLowerCase()) ? "[redacted]" : value;
+  });
+  return result;
+}
@@ -0,0 +1,446 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer, settle } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { MemoryCacheStore } from "./cache";
+import {
+  AbortError,
+  AuthError,
+  CommandRejectedError,
+  ErrorCode,
+  HttpError,
+  ModuleOutdatedError,
+  RateLimitError,
+  SchemaValidationError,
+  ServerOfflineError,
+  TimeoutError,
+} from "./errors";
+
+function setup(options: { retries?: number } = {}) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const mock = createMockServer({ serverKey: "key", now: () => clock.now() });
+  const api = new PRC({
+    serverKey: "key",
+    fetch: mock.fetch,
+    clock,
+    retries: options.retries,
+  });
+  return { clock, mock, api };
+}
+
+describe("HttpClient", () => {
+  describe("429 handling", () => {
+    it("waits for Retry-After before retrying", async () => {
+      const { clock, mock, api } = setup();
+      mock.join({ name: "john", userId: 1 });
+      mock.fail("/v1/server/players", {
+        status: 429,
+        code: ErrorCode.RateLimited,
+        retryAfterSeconds: 5,
+      });
+      const retries: number[] = [];
+      api.http.use({ onRetry: (ctx) => retries.push(ctx.waitMs) });
+
+      const players = await settle(clock, api.players.list());
+
+      assert.equal(players[0].Username, "john");
+      assert.deepEqual(retries, [5000]);
+      const [first, second] = mock.requests;
+      assert.equal(first.status, 429);
+      assert.equal(second.status, 200);
+      assert.ok(second.at - first.at >= 5000);
+    });
+
+    it("rejects with a RateLimitError once retries run out", async () => {
+      const { clock, mock, api } = setup({ retries: 1 });
+      mock.fail(
+        "/v1/server/players",
+        { status: 429, code: ErrorCode.RateLimited, retryAfterSeconds: 2 },
+        2
+      );
+      const limited: (number | undefined)[] = [];
+      api.http.use({ onRateLimit: (ctx) => limited.push(ctx.retryAfterMs) });
+
+      const error = await settle(clock, api.players.list()).catch((e) => e);
+
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterMs, 2000);
+      assert.equal(error.isRetryable, true);
+      assert.deepEqual(limited, [2000, 2000]);
+      assert.equal(mock.requests.length, 2);
+    });
+  });
+
+  describe("ETag reuse", () => {
+    it("sends If-None-Match and reuses the cached payload", async () => {
+      const { clock, mock, api } = setup();
+      mock.join({ name: "john", userId: 1 });
+      const hits: string[] = [];
+      api.http.use({ onCacheHit: (ctx) => hits.push(ctx.kind) });
+
+      const first = await settle(clock, api.players.list());
+      const second = await settle(clock, api.players.list());
+
+      assert.equal(second, first);
+      assert.deepEqual(hits, ["etag-match"]);
+      assert.equal(mock.requests[0].headers.get("if-none-match"), null);
+      assert.ok(mock.requests[1].headers.get("if-none-match"));
+    });
+
+    it("returns fresh data once the payload changes", async () => {
+      const { clock, mock, api } = setup();
+      mock.join({ name: "john", userId: 1 });
+      await settle(clock, api.players.list());
+
+      mock.join({ name: "jane", userId: 2 });
+      const players = await settle(clock, api.players.list());
+
+      assert.deepEqual(
+        players.map((player) => player.Username),
+        ["john", "jane"]
+      );
+    });
+  });
+
+  describe("shared cache stores", () => {
+    it("never serves one server's payload to another", async () => {
+      const clock = new VirtualClock(1_700_000_000_000);
+      const cache = new MemoryCacheStore();
+      const cachePolicies = {
+        "/v1/server/players": {
+          maxAgeMs: 60_000,
+          staleWhileRevalidateMs: 60_000,
+        },
+      };
+      const servers = ["a", "b"].map((serverKey) => {
+        const mock = createMockServer({ serverKey, now: () => clock.now() });
+        const api = new PRC({
+          serverKey,
+          fetch: mock.fetch,
+          clock,
+          cache,
+          cachePolicies,
+        });
+        return { mock, api };
+      });
+      servers[0].mock.join({ name: "john", userId: 1 });
+      servers[1].mock.join({ name: "jane", userId: 2 });
+
+      const [a, b] = servers;
+      const first = await settle(clock, a.api.players.list());
+      const second = await settle(clock, b.api.players.list());
+
+      assert.equal(first[0].Username, "john");
+      assert.equal(second[0].Username, "jane");
+      assert.equal(b.mock.requests.length, 1);
+
+      // Within maxAgeMs each server is served its own cached payload.
+      assert.equal((await a.api.players.list())[0].Username, "john");
+      assert.equal((await b.api.players.list())[0].Username, "jane");
+      assert.equal(a.mock.requests.length, 1);
+      assert.equal(b.mock.requests.length, 1);
+    });
+  });
+
+  describe("hooks", () => {
+    it("sees a redacted copy of the outgoing headers", async () => {
+      const { clock, mock, api } = setup();
+      const seen: (string | null)[] = [];
+      api.http.use({
+        onRequest: (ctx) => {
+          seen.push(ctx.headers.get("server-key"));
+          ctx.headers.set("server-key", "tampered");
+        },
+      });
+
+      await settle(clock, api.server.status());
+
+      assert.deepEqual(seen, ["[redacted]"]);
+      assert.equal(mock.requests[0].headers.get("server-key"), "key");
+    });
+
+    it("reports the queue depth from when each request was issued", async () => {
+      const { clock, api } = setup();
+      const depths: number[] = [];
+      api.http.use({ onRequest: (ctx) => depths.push(ctx.queueDepth) });
+
+      await settle(
+        clock,
+        Promise.all([1, 2, 3, 4].map((i) => api.commands.message(`${i}`)))
+      );
+
+      // The first request starts right away; the rest queue up behind it.
+      assert.deepEqual(depths, [0, 0, 1, 2]);
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    it("times out a request still waiting in the limiter queue", async () => {
+      const { clock, mock, api } = setup();
+
+      const first = api.commands.message("first");
+      const second = api.commands.message("second", { timeoutMs: 500 });
+      const error = await settle(clock, second).catch((e) => e);
+      await settle(clock, first);
+
+      assert.ok(error instanceof TimeoutError, `got ${error}`);
+      assert.equal(error.timeoutMs, 500);
+      assert.deepEqual(
+        mock.requests.map((request) => request.body),
+        [{ command: ":m first" }]
+      );
+    });
+
+    it("times out a response that never arrives", async () => {
+      const clock = new VirtualClock(1_700_000_000_000);
+      const api = new PRC({
+        serverKey: "key",
+        clock,
+        timeoutMs: 2000,
+        fetch: (_, init) =>
+          new Promise((_, reject) =>
+            init?.signal?.addEventListener("abort", () =>
+              reject(init.signal?.reason)
+            )
+          ),
+      });
+
+      const error = await settle(clock, api.server.status()).catch((e) => e);
+
+      assert.ok(error instanceof TimeoutError, `got ${error}`);
+      assert.equal(error.isRetryable, false);
+    });
+
+    it("drops an aborted request from the queue without sending it", async () => {
+      const { clock, mock, api } = setup();
+      const controller = new AbortController();
+
+      const first = api.commands.message("first");
+      const second = api.commands.message("second", {
+        signal: controller.signal,
+      });
+      controller.abort("changed my mind");
+      const error = await settle(clock, second).catch((e) => e);
+      await settle(clock, first);
+
+      assert.ok(error instanceof AbortError, `got ${error}`);
+      assert.equal(error.cause, "changed my mind");
+      assert.equal(mock.requests.length, 1);
+    });
+  });
+
+  describe("GET coalescing", () => {
+    it("shares one request between concurrent GETs of a URL", async () => {
+      const { clock, mock, api } = setup();
+      mock.join({ name: "john", userId: 1 });
+
+      const [a, b, c] = await settle(
+        clock,
+        Promise.all([
+          api.players.list(),
+          api.players.list(),
+          api.players.list(),
+        ])
+      );
+
+      assert.equal(a, b);
+      assert.equal(b, c);
+      assert.equal(mock.requests.length, 1);
+    });
+
+    it("keeps the shared request going while another caller waits", async () => {
+      const { clock, mock, api } = setup();
+      mock.join({ name: "john", userId: 1 });
+      const controller = new AbortController();
+
+      const aborted = api.players.list({ signal: controller.signal });
+      const kept = api.players.list();
+      controller.abort();
+
+      const error = await settle(clock, aborted).catch((e) => e);
+      const players = await settle(clock, kept);
+
+      assert.ok(error instanceof AbortError, `got ${error}`);
+      assert.equal(players[0].Username, "john");
+      assert.equal(mock.requests.length, 1);
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    function cached() {
+      const clock = new VirtualClock(1_700_000_000_000);
+      const mock = createMockServer({
+        serverKey: "key",
+        now: () => clock.now(),
+        rateLimit: false,
+      });
+      const api = new PRC({
+        serverKey: "key",
+        fetch: mock.fetch,
+        clock,
+        cachePolicies: {
+          "/v1/server/players": {
+            maxAgeMs: 10_000,
+            staleWhileRevalidateMs: 20_000,
+          },
+        },
+      });
+      const names = async () =>
+        (await api.players.list()).map((player) => player.Username);
+      return { clock, mock, names };
+    }
+
+    it("serves fresh payloads from the cache without a request", async () => {
+      const { clock, mock, names } = cached();
+      mock.join({ name: "john", userId: 1 });
+      await settle(clock, names());
+
+      mock.join({ name: "jane", userId: 2 });
+      await clock.advance(10_000);
+
+      assert.deepEqual(await names(), ["john"]);
+      assert.equal(mock.requests.length, 1);
+    });
+
+    it("serves stale payloads while refreshing them in the background", async () => {
+      const { clock, mock, names } = cached();
+      mock.join({ name: "john", userId: 1 });
+      await settle(clock, names());
+
+      mock.join({ name: "jane", userId: 2 });
+      await clock.advance(15_000);
+
+      assert.deepEqual(await names(), ["john"]);
+      // Let the background refresh land.
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.equal(mock.requests.length, 2);
+      assert.deepEqual(await names(), ["john", "jane"]);
+    });
+
+    it("waits for fresh data once the stale window is over", async () => {
+      const { clock, mock, names } = cached();
+      mock.join({ name: "john", userId: 1 });
+      await settle(clock, names());
+
+      mock.join({ name: "jane", userId: 2 });
+      await clock.advance(30_001);
+
+      assert.deepEqual(await settle(clock, names()), ["john", "jane"]);
+      assert.equal(mock.requests.length, 2);
+    });
+  });
+
+  describe("error codes", () => {
+    const cases: [
+      string,
+      { status: number; code: ErrorCode },
+      new (...args: never[]) => HttpError,
+    ][] = [
+      [
+        "invalid server key",
+        { status: 403, code: ErrorCode.InvalidServerKey },
+        AuthError,
+      ],
+      [
+        "banned server key",
+        { status: 403, code: ErrorCode.BannedServerKey },
+        AuthError,
+      ],
+      [
+        "restricted command",
+        { status: 400, code: ErrorCode.RestrictedCommand },
+        CommandRejectedError,
+      ],
+      [
+        "prohibited message",
+        { status: 400, code: ErrorCode.ProhibitedMessage },
+        CommandRejectedError,
+      ],
+      [
+        "server offline",
+        { status: 422, code: ErrorCode.ServerOffline },
+        ServerOfflineError,
+      ],
+      [
+        "outdated module",
+        { status: 400, code: ErrorCode.OutdatedModule },
+        ModuleOutdatedError,
+      ],
+    ];
+
+    for (const [name, failure, type] of cases) {
+      it(`maps ${name} (${failure.code}) without retrying`, async () => {
+        const { clock, mock, api } = setup();
+        mock.fail("*", failure);
+
+        const error = await settle(clock, api.server.status()).catch((e) => e);
+
+        assert.ok(error instanceof type, `got ${error}`);
+        assert.equal(error.code, failure.code);
+        assert.equal(error.status, failure.status);
+        assert.equal(error.isRetryable, false);
+        assert.equal(mock.requests.length, 1);
+      });
+    }
+
+    it("does not retry a 500 carrying a non-retryable code", async () => {
+      const { clock, mock, api } = setup();
+      mock.fail("*", { status: 500, code: ErrorCode.InvalidServerKey });
+
+      const error = await settle(clock, api.server.status()).catch((e) => e);
+
+      assert.ok(error instanceof AuthError);
+      assert.equal(mock.requests.length, 1);
+    });
+
+    it("retries Roblox communication errors", async () => {
+      const { clock, mock, api } = setup();
+      mock.fail("*", {
+        status: 500,
+        code: ErrorCode.RobloxCommunicationError,
+      });
+
+      const status = await settle(clock, api.server.status());
+
+      assert.equal(status.Name, "Mock Server");
+      assert.deepEqual(
+        mock.requests.map((request) => request.status),
+        [500, 200]
+      );
+    });
+
+    it("answers every route with ServerOffline while offline", async () => {
+      const { clock, mock, api } = setup();
+      mock.setOffline(true);
+
+      const error = await settle(clock, api.players.bans()).catch((e) => e);
+
+      assert.ok(error instanceof ServerOfflineError);
+      assert.equal(error.code, ErrorCode.ServerOffline);
+    });
+
+    it("rejects a wrong server key with an AuthError", async () => {
+      const clock = new VirtualClock();
+      const mock = createMockServer({ serverKey: "right" });
+      const api = new PRC({ serverKey: "wrong", fetch: mock.fetch, clock });
+
+      const error = await settle(clock, api.server.status()).catch((e) => e);
+
+      assert.ok(error instanceof AuthError);
+      assert.equal(error.code, ErrorCode.InvalidServerKey);
+    });
+
+    it("reports unexpected payloads as SchemaValidationError", async () => {
+      const api = new PRC({
+        serverKey: "key",
+        fetch: async () => Response.json([{ Player: 42 }]),
+      });
+
+      const error = await api.players.list().catch((e) => e);
+
+      assert.ok(error instanceof SchemaValidationError);
+      assert.ok(error.issues.length > 0);
+    });
+  });
+});
@@ -1,91 +1,155 @@
-import { ZodSchema } from "zod";
-import { RateLimiterManager, SmoothRateLimiter } from "./limiter";
+import { createHash } from "node:crypto";
+import { ZodError, ZodSchema } from "zod";
+import {
+  RateLimiterManager,
+  RequestPriority,
+  SmoothRateLimiter,
+} from "./limiter";
 import { parseRateHeaders, sleep } from "../utils/headers";
-
-type CacheEntry<T = unknown> = { etag: string; data: T };
-
-export enum ErrorCode {
-  /** Unknown error occurred. If this is persistent, contact PRC via an API ticket. */
-  Unknown = 0,
-
-  /** An error occurred communicating with Roblox / the in-game private server. */
-  RobloxCommunicationError = 1001,
-
-  /** An internal system error occurred. */
-  InternalSystemError = 1002,
-
-  /** You did not provide a server-key. */
-  MissingServerKey = 2000,
-
-  /** You provided an incorrectly formatted server-key. */
-  MalformedServerKey = 2001,
-
-  /** You provided an invalid (or expired) server-key. */
-  InvalidServerKey = 2002,
-
-  /** You provided an invalid global API key. */
-  InvalidGlobalApiKey = 2003,
-
-  /** Your server-key is currently banned from accessing the API. */
-  BannedServerKey = 2004,
-
-  /** You did not provide a valid command in the request body. */
-  InvalidCommand = 3001,
-
-  /** The server you are attempting to reach is currently offline (has no players). */
-  ServerOffline = 3002,
-
-  /** You are being rate limited. */
-  RateLimited = 4001,
-
-  /** The command you are attempting to run is restricted. */
-  RestrictedCommand = 4002,
-
-  /** The message you're trying to send is prohibited. */
-  ProhibitedMessage = 4003,
-
-  /** The resource you are accessing is restricted. */
-  RestrictedResource = 9998,
-
-  /** The module running on the in-game server is out of date, please kick all and try again. */
-  OutdatedModule = 9999,
-}
+import { Clock, systemClock } from "../utils/clock";
+import { CacheEntry, CacheStore, MemoryCacheStore } from "./cache";
+import type { RateLimitStore } from "./limiter-store";
+import {
+  type HttpClientHooks,
+  type RequestHookContext,
+  redactHeaders,
+} from "./hooks";
+import { MetricsRegistry } from "./metrics";
+import {
+  AbortError,
+  ErrorCode,
+  HttpError,
+  PRCError,
+  RateLimitError,
+  SchemaValidationError,
+  TimeoutError,
+  createHttpError,
+} from "./errors";
+
+export { ErrorCode, HttpError };
 
 export type HttpClientOptions = {
   baseUrl?: string;
   serverKey: string;
+  /** Global API key for large applications, sent as the `authorization` header. */
+  globalKey?: string;
   rpm?: number; // default 60
   maxConcurrency?: number;
+  /** Per-path queue limit; see `SmoothRateLimiterOptions.maxQueueLength`. */
+  maxQueueLength?: number;
   retries?: number; // default 3
   userAgent?: string;
   fetch?: typeof fetch;
   debug?: boolean;
+  /** Store for ETag-validated payloads. Defaults to an in-memory LRU. */
+  cache?: CacheStore;
+  /** TTL passed to the cache store for every entry. */
+  cacheTtlMs?: number;
+  /**
+   * Persist rate limiter state in a shared store so several processes using
+   * the same key split one budget instead of competing for it.
+   */
+  rateLimitStore?: RateLimitStore;
+  /** Share rate limiter state with other clients (e.g. under one global key). */
+  limiters?: RateLimiterManager;
+  /** Lifecycle hooks for tracing and logging. More can be added with `use()`. */
+  hooks?: HttpClientHooks;
+  /**
+   * Default time limit for a request in ms, covering time spent queued in the
+   * limiter, back-off sleeps and the fetch itself. Disabled when omitted.
+   */
+  timeoutMs?: number;
+  /**
+   * Cache policies by path (e.g. `"/v1/server/players"`). Within `maxAgeMs`
+   * cached payloads are served without spending a request.
+   */
+  cachePolicies?: Record<string, CachePolicy>;
+  /** Time source for the limiter, retries and latency measurements. */
+  clock?: Clock;
+  /** Registry to record metrics into. A new one is created when omitted. */
+  metrics?: MetricsRegistry;
+};
+
+export type CachePolicy = {
+  /** Serve the cached payload without a request while it is younger than this. */
+  maxAgeMs?: number;
+  /**
+   * After `maxAgeMs`, keep serving the cached payload for this long while it
+   * is refreshed in the background.
+   */
+  staleWhileRevalidateMs?: number;
+};
+
+export type RequestOptions = {
+  /** Cancels the request, including while it waits in the limiter queue. */
+  signal?: AbortSignal;
+  /** Overrides `HttpClientOptions.timeoutMs`; `0` disables the timeout. */
+  timeoutMs?: number;
+  /** Limiter lane. Use `high` for moderator actions, `low` for background polling. */
+  priority?: RequestPriority;
+  /** Overrides the `cachePolicies` entry for this path. GET only. */
+  cachePolicy?: CachePolicy;
+};
+
+type Flight = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
 };
 
 export class HttpClient {
+  readonly metrics: MetricsRegistry;
   private readonly baseUrl: string;
   private readonly serverKey: string;
+  /* Prefix keeping cache entries of different servers apart in a shared store. */
+  private readonly cacheScope: string;
+  private readonly globalKey?: string;
   private readonly limiters: RateLimiterManager;
   private readonly retries: number;
   private readonly userAgent?: string;
   private readonly fetchImpl: typeof fetch;
-  private readonly etagCache: Map<string, CacheEntry> = new Map();
+  private readonly etagCache: CacheStore;
+  private readonly cacheTtlMs?: number;
   private readonly debug: boolean;
+  private readonly clock: Clock;
+  private readonly timeoutMs?: number;
+  private readonly cachePolicies: Record<string, CachePolicy>;
+  private readonly inflight = new Map<string, Flight>();
+  private readonly hooks: HttpClientHooks[] = [];
 
   constructor(opts: HttpClientOptions) {
     this.baseUrl = (
       opts.baseUrl ?? "https://api.policeroleplay.community"
     ).replace(/\/$/, "");
     this.serverKey = opts.serverKey;
-    this.limiters = new RateLimiterManager({
-      requestsPerMinute: opts.rpm ?? 60,
-      maxConcurrency: opts.maxConcurrency,
-      debug: opts.debug,
-    });
+    this.cacheScope = limiterStoreKey(opts.serverKey);
+    this.globalKey = opts.globalKey;
+    this.clock = opts.clock ?? systemClock;
+    this.timeoutMs = opts.timeoutMs;
+    this.cachePolicies = opts.cachePolicies ?? {};
+    this.limiters =
+      opts.limiters ??
+      new RateLimiterManager({
+        requestsPerMinute: opts.rpm ?? 60,
+        maxConcurrency: opts.maxConcurrency,
+        maxQueueLength: opts.maxQueueLength,
+        debug: opts.debug,
+        store: opts.rateLimitStore,
+        storeKey: limiterStoreKey(opts.globalKey ?? opts.serverKey),
+        clock: this.clock,
+      });
     this.retries = Math.max(0, opts.retries ?? 3);
     this.userAgent = opts.userAgent;
     this.fetchImpl = opts.fetch ?? globalThis.fetch;
+    this.etagCache = opts.cache ?? new MemoryCacheStore({ clock: this.clock });
+    this.cacheTtlMs = opts.cacheTtlMs;
     this.debug = Boolean(opts.debug);
+    this.metrics = opts.metrics ?? new MetricsRegistry();
+    this.metrics.trackLimiters(this.limiters);
+    this.hooks.push(this.metrics.hooks());
+    if (opts.hooks) {
+      this.hooks.push(opts.hooks);
+    }
 
     if (!this.fetchImpl) {
       throw new Error(
@@ -94,10 +158,160 @@ export class HttpClient {
     }
   }
 
+  /**
+   * Registers additional lifecycle hooks. Hooks run in registration order.
+   * Returns a function that removes them again.
+   */
+  use(hooks: HttpClientHooks) {
+    this.hooks.push(hooks);
+    return () => {
+      const index = this.hooks.indexOf(hooks);
+      if (index !== -1) this.hooks.splice(index, 1);
+    };
+  }
+
   async request<T>(
     path: string,
-    init: RequestInit = {},
+    options: RequestInit & RequestOptions = {},
     schema?: ZodSchema<T>
+  ): Promise<T> {
+    const { signal, timeoutMs, priority, cachePolicy, ...init } = options;
+    const timeout = timeoutMs ?? this.timeoutMs;
+    const start = (s: AbortSignal) =>
+      this.send(path, init, schema, s, priority);
+    const method = this.normalizeMethod(init.method);
+
+    if (method !== "GET" || init.body != null) {
+      return this.guard(signal, timeout, start);
+    }
+
+    const url = this.resolveUrl(path);
+    const key = this.cacheKey(url, method);
+    const policy = cachePolicy ?? this.cachePolicies[new URL(url).pathname];
+
+    if (policy) {
+      const cached = await this.readCache(key);
+      const age =
+        cached?.storedAt != null
+          ? this.clock.now() - cached.storedAt
+          : Infinity;
+      const maxAge = policy.maxAgeMs ?? 0;
+      const ctx = {
+        url,
+        method,
+        attempt: 0,
+        headers: new Headers(init.headers),
+        queueDepth: this.limiters.forPath(path).queueDepth,
+      };
+
+      if (cached && age <= maxAge) {
+        this.log("cache-fresh", { url, age });
+        this.emit("onCacheHit", { ...ctx, kind: "fresh" });
+        this.emit("onData", { ...ctx, data: cached.data, cached: true });
+        return cached.data as T;
+      }
+
+      if (cached && age <= maxAge + (policy.staleWhileRevalidateMs ?? 0)) {
+        this.log("cache-stale", { url, age });
+        this.emit("onCacheHit", { ...ctx, kind: "stale" });
+        this.emit("onData", { ...ctx, data: cached.data, cached: true });
+        this.coalesce(key, start, undefined, this.timeoutMs).catch((error) =>
+          this.log("revalidate-error", { url, error })
+        );
+        return cached.data as T;
+      }
+    }
+
+    return this.coalesce(key, start, signal, timeout);
+  }
+
+  /*
+    Concurrent GETs for the same URL share one underlying request. Each caller
+    keeps its own signal and timeout; the shared request is only aborted once
+    every caller waiting for it has given up.
+  */
+  private coalesce<T>(
+    key: string,
+    start: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined
+  ): Promise<T> {
+    let flight = this.inflight.get(key);
+    if (flight) {
+      this.log("coalesced", { key });
+    } else {
+      const controller = new AbortController();
+      const created: Flight = {
+        controller,
+        waiters: 0,
+        promise: start(controller.signal),
+      };
+      created.promise
+        .finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        })
+        .catch(() => undefined);
+      this.inflight.set(key, created);
+      flight = created;
+    }
+
+    const joined = flight;
+    joined.waiters++;
+    return this.guard(signal, timeoutMs, (scope) =>
+      this.join<T>(key, joined, scope)
+    );
+  }
+
+  private join<T>(key: string, flight: Flight, signal: AbortSignal) {
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        flight.waiters--;
+        if (flight.waiters === 0) {
+          if (this.inflight.get(key) === flight) this.inflight.delete(key);
+          flight.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+      if (signal.aborted) {
+        leave();
+        return;
+      }
+      signal.addEventListener("abort", leave, { once: true });
+      flight.promise.then(
+        (value) => {
+          signal.removeEventListener("abort", leave);
+          resolve(value as T);
+        },
+        (error) => {
+          signal.removeEventListener("abort", leave);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private async guard<T>(
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined,
+    start: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const abort = this.abortScope(signal, timeoutMs);
+    try {
+      return await start(abort.signal);
+    } catch (error) {
+      // Surface the typed abort reason instead of whatever fetch rejected with.
+      throw abort.signal.aborted ? abort.signal.reason : error;
+    } finally {
+      abort.dispose();
+    }
+  }
+
+  private async send<T>(
+    path: string,
+    init: RequestInit,
+    schema: ZodSchema<T> | undefined,
+    signal: AbortSignal,
+    priority?: RequestPriority
   ): Promise<T> {
     const url = this.resolveUrl(path);
     const method = this.normalizeMethod(init.method);
@@ -106,7 +320,7 @@ export class HttpClient {
     const cacheKey = cacheable ? this.cacheKey(url, method) : undefined;
 
     if (cacheable && cacheKey) {
-      const cached = this.etagCache.get(cacheKey);
+      const cached = await this.readCache(cacheKey);
       if (cached?.etag) {
         headers.set("if-none-match", cached.etag);
         this.log("etag-send", { url });
@@ -115,27 +329,53 @@ export class HttpClient {
 
     const limiter = this.limiters.forPath(path);
 
-    const run = async (): Promise<T> => {
+    // Hooks get a copy so they can neither leak the server key nor alter
+    // the request.
+    const context = (
+      attempt: number,
+      queueDepth = limiter.queueDepth
+    ): RequestHookContext => ({
+      url,
+      method,
+      attempt,
+      headers: new Headers(redactHeaders(headers)),
+      queueDepth,
+    });
+
+    const run = async (ctx: RequestHookContext): Promise<T> => {
       this.log("request", { url, method });
+      this.emit("onRequest", ctx);
+      const startedAt = this.clock.now();
       const response = await this.fetchImpl(url, {
         ...init,
         method,
         headers,
+        signal,
       });
+      const responseCtx = {
+        ...ctx,
+        status: response.status,
+        latencyMs: this.clock.now() - startedAt,
+        rate: parseRateHeaders(response.headers),
+      };
 
       limiter.updateFromHeaders(response.headers);
+      this.emit("onResponse", responseCtx);
 
       if (cacheable && cacheKey && response.status === 304) {
-        const cached = this.etagCache.get(cacheKey);
+        const cached = await this.readCache(cacheKey);
         if (cached) {
           this.log("cache-hit", { url });
+          this.emit("onCacheHit", { ...responseCtx, kind: "not-modified" });
+          this.emit("onData", { ...ctx, data: cached.data, cached: true });
+          await this.writeCache(cacheKey, cached);
           return cached.data as T;
         }
       }
 
       if (cacheable && cacheKey) {
         const newEtag = response.headers.get("etag");
-        const cached = this.etagCache.get(cacheKey);
+        const cached = await this.readCache(cacheKey);
 
         /*
           The PRC API never returns 304 responses, so we validate the ETag header
@@ -144,6 +384,9 @@ export class HttpClient {
         */
         if (response.ok && newEtag && cached && cached.etag === newEtag) {
           this.log("cache-match", { url });
+          this.emit("onCacheHit", { ...responseCtx, kind: "etag-match" });
+          this.emit("onData", { ...ctx, data: cached.data, cached: true });
+          await this.writeCache(cacheKey, cached);
           return cached.data as T;
         }
       }
@@ -154,55 +397,91 @@ export class HttpClient {
           limiter.penalize(error.retryAfterMs);
         }
         this.log("http-error", { url, status: error.status });
+        if (error instanceof RateLimitError) {
+          this.emit("onRateLimit", {
+            ...responseCtx,
+            retryAfterMs: error.retryAfterMs,
+          });
+        }
         throw error;
       }
 
       const payload = await this.parseBody<unknown>(response, url);
-      const validated = schema ? schema.parse(payload) : (payload as T);
+      const validated = schema
+        ? this.validate(schema, payload, url)
+        : (payload as T);
 
       if (cacheable && cacheKey) {
         const etag = response.headers.get("etag");
         if (etag) {
-          this.etagCache.set(cacheKey, { etag, data: validated });
+          await this.writeCache(cacheKey, { etag, data: validated });
           this.log("cache-store", { url });
         }
       }
 
+      this.emit("onData", { ...ctx, data: validated, cached: false });
       return validated;
     };
 
-    return this.withRetries(() => limiter.schedule(run), limiter);
+    const startedAt = this.clock.now();
+    let lastAttempt = 0;
+    try {
+      return await this.withRetries(
+        (attempt) => {
+          lastAttempt = attempt;
+          // Depth as seen by this request, not by the time it gets to run.
+          const queueDepth = limiter.queueDepth;
+          return limiter.schedule(() => run(context(attempt, queueDepth)), {
+            signal,
+            priority,
+          });
+        },
+        limiter,
+        context,
+        signal
+      );
+    } catch (error) {
+      this.emit("onError", {
+        ...context(lastAttempt),
+        error,
+        latencyMs: this.clock.now() - startedAt,
+      });
+      throw error;
+    }
   }
 
   private async withRetries<T>(
-    fn: () => Promise<T>,
-    limiter: SmoothRateLimiter
+    fn: (attempt: number) => Promise<T>,
+    limiter: SmoothRateLimiter,
+    context: (attempt: number) => RequestHookContext,
+    signal: AbortSignal
   ): Promise<T> {
     let attempt = 0;
     let lastErr: unknown;
 
     while (attempt <= this.retries) {
       try {
-        return await fn();
+        return await fn(attempt);
       } catch (error) {
         lastErr = error;
 
-        if (error instanceof HttpError) {
-          if (!this.shouldRetry(error.status)) {
+        if (error instanceof PRCError) {
+          if (!error.isRetryable) {
             break;
           }
 
-          const isRetryAfter = typeof error.retryAfterMs === "number";
-          const wait = isRetryAfter
-            ? error.retryAfterMs
-            : this.backoff(attempt);
+          const retryAfterMs =
+            error instanceof HttpError ? error.retryAfterMs : undefined;
+          const isRetryAfter = typeof retryAfterMs === "number";
+          const wait = isRetryAfter ? retryAfterMs : this.backoff(attempt);
 
           if (wait > 0) {
             if (!isRetryAfter) {
               limiter.penalize(wait);
             }
             this.log("retry", { attempt, wait });
-            await sleep(wait);
+            this.emit("onRetry", { ...context(attempt), error, waitMs: wait });
+            await sleep(wait, this.clock, signal);
           }
           attempt++;
           continue;
@@ -215,8 +494,36 @@ export class HttpClient {
     throw lastErr;
   }
 
-  private shouldRetry(status?: number) {
-    return status === 429 || status === 503 || status === 500;
+  /*
+    Combines the caller's signal and the timeout into one signal whose reason
+    is always a typed `AbortError` / `TimeoutError`.
+  */
+  private abortScope(signal: AbortSignal | undefined, timeoutMs?: number) {
+    const controller = new AbortController();
+    const onAbort = () =>
+      controller.abort(new AbortError("Request aborted", signal?.reason));
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const timer =
+      typeof timeoutMs === "number" && timeoutMs > 0
+        ? this.clock.setTimeout(
+            () => controller.abort(new TimeoutError(timeoutMs)),
+            timeoutMs
+          )
+        : undefined;
+
+    return {
+      signal: controller.signal,
+      dispose: () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (timer !== undefined) this.clock.clearTimeout(timer);
+      },
+    };
   }
 
   private backoff(attempt: number) {
@@ -242,6 +549,9 @@ export class HttpClient {
   ) {
     const headers = new Headers(initHeaders);
     headers.set("server-key", this.serverKey);
+    if (this.globalKey) {
+      headers.set("authorization", this.globalKey);
+    }
     headers.set("accept", "application/json");
     if (this.userAgent && !headers.has("user-agent")) {
       headers.set("user-agent", this.userAgent);
@@ -252,8 +562,39 @@ export class HttpClient {
     return headers;
   }
 
+  /*
+    Stores and cache policies may be shared by several clients (a cluster, a
+    `FileCacheStore` used by many processes), so entries are scoped to the
+    server key; otherwise one server's payload could be served to another.
+  */
   private cacheKey(url: string, method: string) {
-    return `${method}:${url}`;
+    return `${this.cacheScope}:${method}:${url}`;
+  }
+
+  /*
+    Cache failures (e.g. an unreachable Redis) must never fail the request, so
+    they are logged and treated as a miss.
+  */
+  private async readCache(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.etagCache.get(key);
+    } catch (error) {
+      this.log("cache-error", { key, error });
+      return undefined;
+    }
+  }
+
+  /* Also refreshes `storedAt`, which cache policies measure age from. */
+  private async writeCache(key: string, entry: CacheEntry) {
+    try {
+      await this.etagCache.set(
+        key,
+        { ...entry, storedAt: this.clock.now() },
+        this.cacheTtlMs
+      );
+    } catch (error) {
+      this.log("cache-error", { key, error });
+    }
   }
 
   private async parseBody<T>(response: Response, url: string): Promise<T> {
@@ -269,7 +610,26 @@ export class HttpClient {
     try {
       return JSON.parse(text) as T;
     } catch (error) {
-      throw new Error(`Failed to parse JSON response from ${url}: ${error}`);
+      throw new SchemaValidationError(
+        url,
+        `Failed to parse JSON response from ${url}: ${error}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private validate<T>(schema: ZodSchema<T>, payload: unknown, url: string): T {
+    try {
+      return schema.parse(payload);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new SchemaValidationError(
+          url,
+          `Unexpected response shape from ${url}: ${error.message}`,
+          { issues: error.issues, cause: error }
+        );
+      }
+      throw error;
     }
   }
 
@@ -293,7 +653,7 @@ export class HttpClient {
     const commandId = parsed?.commandId;
     const details = parsed ?? bodyText;
 
-    return new HttpError(response.status, message, retryAfterMs, {
+    return createHttpError(response.status, message, retryAfterMs, {
       code,
       commandId,
       rawBody: bodyText,
@@ -301,6 +661,21 @@ export class HttpClient {
     });
   }
 
+  private emit<K extends keyof HttpClientHooks>(
+    name: K,
+    ctx: Parameters<NonNullable<HttpClientHooks[K]>>[0]
+  ) {
+    for (const hooks of this.hooks) {
+      const hook = hooks[name] as ((ctx: unknown) => void) | undefined;
+      if (!hook) continue;
+      try {
+        hook(ctx);
+      } catch (error) {
+        this.log("hook-error", { hook: name, error });
+      }
+    }
+  }
+
   private log(event: string, payload: Record<string, unknown>) {
     if (!this.debug) return;
     // eslint-disable-next-line no-console
@@ -308,47 +683,7 @@ export class HttpClient {
   }
 }
 
-export class HttpError extends Error {
-  public readonly status: number;
-  public readonly retryAfterMs?: number;
-  public readonly code?: ErrorCode;
-  public readonly commandId?: string;
-  public readonly rawBody?: string;
-  public readonly details?: unknown;
-
-  constructor(
-    status: number,
-    message: string,
-    retryAfterMs?: number,
-    extra?: {
-      code?: ErrorCode;
-      commandId?: string;
-      rawBody?: string;
-      details?: unknown;
-    }
-  ) {
-    const readableMessage = `[${status}${
-      extra?.code ? `:${extra.code}` : ""
-    }] ${message}`;
-
-    super(readableMessage);
-    this.name = "HttpError";
-    this.status = status;
-    this.retryAfterMs = retryAfterMs;
-    this.code = extra?.code;
-    this.commandId = extra?.commandId;
-    this.rawBody = extra?.rawBody;
-    this.details = extra?.details;
-  }
-
-  format(): string {
-    return [
-      `HTTP ${this.status}${this.code ? ` (Code ${this.code})` : ""}`,
-      `Message: ${this.message.replace(/^\[\d+\] /, "")}`,
-      this.commandId ? `Command ID: ${this.commandId}` : null,
-      this.retryAfterMs ? `Retry After: ${this.retryAfterMs}ms` : null,
-    ]
-      .filter(Boolean)
-      .join("\n");
-  }
+/** Store keys are derived from the API key without exposing it. */
+export function limiterStoreKey(apiKey: string) {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
 }
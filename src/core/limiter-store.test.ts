@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { settle } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { SmoothRateLimiter } from "./limiter";
+import {
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitState,
+} from "./limiter-store";
+
+const state: RateLimitState = {
+  nextAvailableTime: 0,
+  currentInterval: 1000,
+  currentConcurrency: 1,
+  windowDuration: 60_000,
+};
+
+describe("MemoryRateLimitStore", () => {
+  it("spaces out limiters sharing a bucket", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const store = new MemoryRateLimitStore();
+    const limiters = [0, 1].map(
+      () => new SmoothRateLimiter({ clock, store, storeKey: "shared" })
+    );
+    const starts: number[] = [];
+    const task = async () => void starts.push(clock.now());
+
+    await settle(
+      clock,
+      Promise.all([
+        limiters[0].schedule(task),
+        limiters[1].schedule(task),
+        limiters[0].schedule(task),
+      ])
+    );
+
+    const start = 1_700_000_000_000;
+    assert.deepEqual(starts, [start, start + 1000, start + 2000]);
+  });
+
+  it("keeps buckets of different keys apart", () => {
+    const store = new MemoryRateLimitStore();
+    store.update("a", () => ({ ...state, nextAvailableTime: 5 }));
+
+    assert.equal(store.get("a")?.nextAvailableTime, 5);
+    assert.equal(store.get("b"), undefined);
+  });
+});
+
+describe("FileRateLimitStore", () => {
+  const dir = mkdtemp(join(tmpdir(), "liberlc-limits-"));
+  after(async () => rm(await dir, { recursive: true, force: true }));
+
+  it("applies concurrent updates from several stores one at a time", async () => {
+    const path = join(await dir, "concurrent.json");
+    const stores = [0, 1, 2].map(() => new FileRateLimitStore({ path }));
+
+    await Promise.all(
+      Array.from({ length: 30 }, (_, i) =>
+        stores[i % stores.length].update("shared", (current) => ({
+          ...(current ?? state),
+          nextAvailableTime: (current?.nextAvailableTime ?? 0) + 1,
+        }))
+      )
+    );
+
+    const reader = new FileRateLimitStore({ path });
+    assert.equal((await reader.get("shared"))?.nextAvailableTime, 30);
+  });
+
+  it("starts from scratch when the file is missing or corrupt", async () => {
+    const path = join(await dir, "corrupt.json");
+    const store = new FileRateLimitStore({ path });
+    assert.equal(await store.get("shared"), undefined);
+
+    await writeFile(path, "{not json");
+    const next = await store.update("shared", (current) => current ?? state);
+
+    assert.deepEqual(next, state);
+    assert.deepEqual(await store.get("shared"), state);
+  });
+});
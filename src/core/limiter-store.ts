@@ -0,0 +1,114 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { withFileLock } from "../utils/file-lock";
+
+/** Bucket state of a `SmoothRateLimiter`, as persisted in a `RateLimitStore`. */
+export type RateLimitState = {
+  nextAvailableTime: number;
+  currentInterval: number;
+  currentConcurrency: number;
+  windowResetAt?: number;
+  windowDuration: number;
+};
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Shared storage for limiter state. `update` must apply `fn` atomically: no
+ * other update for the same key may run between reading and writing, otherwise
+ * two processes can reserve the same request slot.
+ */
+export interface RateLimitStore {
+  get(key: string): MaybePromise<RateLimitState | undefined>;
+  update(
+    key: string,
+    fn: (current: RateLimitState | undefined) => RateLimitState
+  ): MaybePromise<RateLimitState>;
+}
+
+/**
+ * Reference implementation that keeps state in memory. Useful for sharing one
+ * budget between several limiters in the same process and as a template for
+ * custom stores.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly states = new Map<string, RateLimitState>();
+
+  get(key: string) {
+    const state = this.states.get(key);
+    return state ? { ...state } : undefined;
+  }
+
+  update(
+    key: string,
+    fn: (current: RateLimitState | undefined) => RateLimitState
+  ) {
+    const next = fn(this.get(key));
+    this.states.set(key, { ...next });
+    return { ...next };
+  }
+}
+
+export type FileRateLimitStoreOptions = {
+  /** JSON file holding the state of every key. */
+  path: string;
+  /** Give up acquiring the lock after this long. Defaults to 5s. */
+  lockTimeoutMs?: number;
+  /** Locks older than this are assumed to belong to a crashed process. Defaults to 10s. */
+  staleLockMs?: number;
+};
+
+/**
+ * Stores limiter state in a JSON file guarded by a lock file, so processes on
+ * the same machine (e.g. a dashboard and a bot) share one budget.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(options: FileRateLimitStoreOptions) {
+    this.path = options.path;
+    this.lockPath = `${options.path}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5_000;
+    this.staleLockMs = options.staleLockMs ?? 10_000;
+  }
+
+  async get(key: string) {
+    const states = await this.read();
+    return states[key];
+  }
+
+  update(
+    key: string,
+    fn: (current: RateLimitState | undefined) => RateLimitState
+  ) {
+    return withFileLock(
+      this.lockPath,
+      async () => {
+        const states = await this.read();
+        const next = fn(states[key]);
+        states[key] = next;
+        const tmp = `${this.path}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(states));
+        await rename(tmp, this.path);
+        return next;
+      },
+      { timeoutMs: this.lockTimeoutMs, staleMs: this.staleLockMs }
+    );
+  }
+
+  private async read(): Promise<Record<string, RateLimitState>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (error) {
+      if (
+        error instanceof SyntaxError ||
+        (error as NodeJS.ErrnoException).code === "ENOENT"
+      ) {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer, settle } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { RateLimiterManager } from "./limiter";
+
+describe("RateLimiterManager", () => {
+  it("starts high priority work before low work released with it on other paths", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const manager = new RateLimiterManager({ clock });
+    const started: string[] = [];
+    const task = (name: string) => async () => void started.push(name);
+    const low = { priority: "low" } as const;
+
+    const done = Promise.all([
+      ...["joins", "kills", "bans"].map((path) =>
+        manager.forPath(`/v1/server/${path}`).schedule(task(path), low)
+      ),
+      manager
+        .forPath("/v1/server/command")
+        .schedule(task("kick"), { priority: "high" }),
+    ]);
+    await settle(clock, done);
+
+    // The first poll was already through; the command goes right after it.
+    assert.deepEqual(started, ["joins", "kick", "kills", "bans"]);
+  });
+
+  it("uses the budget advertised in the rate headers", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const mock = createMockServer({
+      serverKey: "key",
+      now: () => clock.now(),
+      rateLimit: { limit: 600, windowMs: 60_000 },
+    });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+
+    await settle(
+      clock,
+      Promise.all(
+        Array.from({ length: 60 }, (_, i) => api.commands.message(`${i}`))
+      )
+    );
+
+    const elapsed = mock.requests[59].at - mock.requests[0].at;
+    assert.ok(mock.requests.every((request) => request.status === 204));
+    // 60 requests at the default 60 per minute would take 59s.
+    assert.ok(elapsed < 10_000, `took ${elapsed}ms`);
+  });
+});
+
+describe("SmoothRateLimiter", () => {
+  for (const limit of [5, 30]) {
+    it(`never exceeds a budget of ${limit} requests per window`, async () => {
+      const windowMs = 10_000;
+      const clock = new VirtualClock(1_700_000_000_000);
+      const mock = createMockServer({
+        serverKey: "key",
+        now: () => clock.now(),
+        rateLimit: { limit, windowMs },
+      });
+      const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+
+      // Commands are POSTs, so unlike GETs they are never coalesced.
+      await settle(
+        clock,
+        Promise.all(
+          Array.from({ length: limit * 3 }, (_, i) =>
+            api.commands.message(`${i}`)
+          )
+        )
+      );
+
+      const start = mock.requests[0].at;
+      const perWindow = new Map<number, number>();
+      for (const request of mock.requests) {
+        assert.equal(request.status, 204);
+        const window = Math.floor((request.at - start) / windowMs);
+        perWindow.set(window, (perWindow.get(window) ?? 0) + 1);
+      }
+      assert.equal(mock.requests.length, limit * 3);
+      for (const count of perWindow.values()) {
+        assert.ok(count <= limit, `${count} requests in one window`);
+      }
+    });
+  }
+});
@@ -1,4 +1,12 @@
-import { clampDelay, parseRateHeaders } from "../utils/headers";
+import {
+  clampDelay,
+  parseRateHeaders,
+  RateHeaders,
+  sleep,
+} from "../utils/headers";
+import { Clock, ClockTimer, systemClock } from "../utils/clock";
+import { QueueFullError } from "./errors";
+import type { RateLimitState, RateLimitStore } from "./limiter-store";
 
 const DEFAULT_WINDOW_MS = 60_000;
 const MAX_TIMEOUT = 2 ** 31 - 1;
@@ -8,12 +16,48 @@ export type SmoothRateLimiterOptions = {
   maxConcurrency?: number;
   minIntervalMs?: number;
   debug?: boolean;
+  /** Shared state store; slots and penalties are coordinated through it. */
+  store?: RateLimitStore;
+  /** Key of this limiter's bucket inside `store`. */
+  storeKey?: string;
+  /** Time source; swap in a `VirtualClock` for deterministic tests. */
+  clock?: Clock;
+  /**
+   * Maximum number of queued tasks. When full, a new task evicts the newest
+   * task of a lower priority, or is rejected with a `QueueFullError`.
+   */
+  maxQueueLength?: number;
+  /**
+   * Limiter every task also passes through, at its own priority, once this
+   * one lets it start. `RateLimiterManager` uses it to order work across paths.
+   */
+  lane?: SmoothRateLimiter;
+};
+
+/** Queue lane; higher lanes always start before lower ones. */
+export type RequestPriority = "high" | "normal" | "low";
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+export type ScheduleOptions = {
+  /** Drops the task from the queue, rejecting with `signal.reason`. */
+  signal?: AbortSignal;
+  /** Defaults to `normal`. */
+  priority?: RequestPriority;
 };
 
 type QueueTask<T> = {
   fn: () => Promise<T>;
   resolve: (value: T | PromiseLike<T>) => void;
   reject: (reason?: unknown) => void;
+  signal?: AbortSignal;
+  priority: RequestPriority;
+  rank: number;
+  cleanup?: () => void;
 };
 
 export class SmoothRateLimiter {
@@ -22,67 +66,102 @@ export class SmoothRateLimiter {
   private readonly minInterval: number;
   private readonly debug: boolean;
   private readonly baseConcurrency: number;
+  private readonly store?: RateLimitStore;
+  private readonly storeKey: string;
+  private readonly clock: Clock;
+  private readonly maxQueueLength: number;
+  private readonly lane?: SmoothRateLimiter;
 
   private readonly queue: QueueTask<any>[] = [];
   private running = 0;
-  private timer: ReturnType<typeof setTimeout> | undefined;
+  private timer: ClockTimer | undefined;
   private timerDueTime = 0;
-  private nextAvailableTime = 0;
 
-  private currentInterval: number;
-  private currentConcurrency: number;
-  private windowResetAt?: number;
-  private windowDuration = DEFAULT_WINDOW_MS;
+  /* Local copy of the bucket state; mirrors the store when one is configured. */
+  private state: RateLimitState;
 
   constructor(options: SmoothRateLimiterOptions = {}) {
     this.defaultRpm = Math.max(1, options.requestsPerMinute ?? 60);
     this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
     this.minInterval = Math.max(0, options.minIntervalMs ?? 0);
     this.debug = Boolean(options.debug);
+    this.store = options.store;
+    this.storeKey = options.storeKey ?? "default";
+    this.clock = options.clock ?? systemClock;
+    this.maxQueueLength = Math.max(1, options.maxQueueLength ?? Infinity);
+    this.lane = options.lane;
 
-    this.currentInterval = this.defaultInterval();
     this.baseConcurrency = 1;
-    this.currentConcurrency = this.baseConcurrency;
+    this.state = this.initialState();
+  }
+
+  /** Tasks waiting for a slot. */
+  get queueDepth() {
+    return this.queue.length;
+  }
+
+  /** Tasks currently executing. */
+  get activeCount() {
+    return this.running;
+  }
+
+  /** Concurrency currently allowed by the latest rate headers. */
+  get concurrency() {
+    return this.state.currentConcurrency;
   }
 
-  schedule<T>(fn: () => Promise<T>): Promise<T> {
+  /** Current spacing between request starts in ms. */
+  get interval() {
+    return this.state.currentInterval;
+  }
+
+  schedule<T>(fn: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    const priority = options.priority ?? "normal";
+    const rank = PRIORITY_RANK[priority];
+
+    if (this.queue.length >= this.maxQueueLength && !this.shed(rank)) {
+      this.log("rejected", { queued: this.queue.length });
+      return Promise.reject(new QueueFullError(this.maxQueueLength));
+    }
+
     return new Promise<T>((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject });
-      this.log("enqueued", { queued: this.queue.length });
+      const task: QueueTask<T> = {
+        fn,
+        resolve,
+        reject,
+        signal,
+        priority,
+        rank,
+      };
+      if (signal) {
+        const onAbort = () => {
+          const index = this.queue.indexOf(task);
+          if (index === -1) return;
+          this.queue.splice(index, 1);
+          this.log("aborted", { queued: this.queue.length });
+          reject(signal.reason);
+          this.pump();
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        task.cleanup = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.enqueue(task);
+      this.log("enqueued", { queued: this.queue.length, rank });
       this.pump();
     });
   }
 
   updateFromHeaders(headers: Headers) {
     const rate = parseRateHeaders(headers);
-    const now = Date.now();
-    this.maybeReset(now);
+    this.mutate((state, now) => this.applyHeaders(state, rate, now));
 
-    if (typeof rate.resetSeconds === "number") {
-      const { resetAt, durationMs } = this.resolveReset(rate.resetSeconds, now);
-      if (resetAt) {
-        this.windowResetAt = resetAt;
-        if (durationMs) {
-          this.windowDuration = durationMs;
-        }
-        this.scheduleTimer(Math.max(0, resetAt - now));
-      }
-    }
-
-    if (typeof rate.remaining === "number") {
-      const remaining = Math.max(0, rate.remaining);
-      const tokens = remaining + 1;
-      const resetAt = this.windowResetAt;
-      const timeToReset = resetAt ? Math.max(0, resetAt - now) : this.windowDuration;
-      const interval = this.calculateInterval(tokens, timeToReset || this.windowDuration);
-      this.currentInterval = interval;
-      this.currentConcurrency = this.calculateConcurrency(tokens, timeToReset || this.windowDuration);
-      this.log("headers", {
-        remaining,
-        interval,
-        concurrency: this.currentConcurrency,
-        timeToReset,
-      });
+    const resetAt = this.state.windowResetAt;
+    if (typeof rate.resetSeconds === "number" && resetAt) {
+      this.scheduleTimer(Math.max(0, resetAt - this.clock.now()));
     }
 
     this.pump();
@@ -93,41 +172,127 @@ export class SmoothRateLimiter {
     if (delay <= 0) {
       return;
     }
-    const target = Date.now() + delay;
-    this.nextAvailableTime = Math.max(this.nextAvailableTime, target);
-    this.scheduleTimer(this.nextAvailableTime - Date.now());
+    this.mutate((state, now) => ({
+      ...state,
+      nextAvailableTime: Math.max(state.nextAvailableTime, now + delay),
+    }));
+    this.scheduleTimer(this.state.nextAvailableTime - this.clock.now());
     this.log("penalize", { delay });
   }
 
+  /* Inserts behind every task of the same or a higher priority. */
+  private enqueue(task: QueueTask<any>) {
+    const index = this.queue.findIndex((queued) => queued.rank < task.rank);
+    if (index === -1) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+  }
+
+  /*
+    Makes room for a task of `rank` by evicting the newest task with a lower
+    priority. Returns false when every queued task is at least as important.
+  */
+  private shed(rank: number) {
+    const last = this.queue[this.queue.length - 1];
+    if (!last || last.rank >= rank) {
+      return false;
+    }
+    this.queue.pop();
+    last.cleanup?.();
+    last.reject(
+      new QueueFullError(
+        this.maxQueueLength,
+        "Evicted from a full rate limiter queue by higher priority work"
+      )
+    );
+    this.log("shed", { queued: this.queue.length });
+    return true;
+  }
+
   private pump() {
     if (!this.queue.length) {
       this.clearTimer();
       return;
     }
 
-    const now = Date.now();
-    this.maybeReset(now);
+    const now = this.clock.now();
+    this.state = this.resetIfElapsed(this.state, now);
+    const { nextAvailableTime, currentConcurrency } = this.state;
 
-    if (this.running >= this.currentConcurrency) {
-      this.scheduleTimer(this.nextAvailableTime - now);
+    // Every finishing task pumps again, so there is nothing to wait for.
+    if (this.running >= currentConcurrency) {
       return;
     }
 
-    if (now < this.nextAvailableTime) {
-      this.scheduleTimer(this.nextAvailableTime - now);
+    if (now < nextAvailableTime) {
+      this.scheduleTimer(nextAvailableTime - now);
       return;
     }
 
     const task = this.queue.shift() as QueueTask<any>;
+    task.cleanup?.();
     this.running++;
-    const startAt = Math.max(now, this.nextAvailableTime);
-    this.nextAvailableTime = startAt + this.currentInterval;
+
+    if (this.store) {
+      void this.reserve(task);
+      return;
+    }
+
+    const startAt = Math.max(now, nextAvailableTime);
+    this.state.nextAvailableTime = startAt + this.state.currentInterval;
     this.log("start", {
       running: this.running,
-      nextAvailableIn: Math.max(0, this.nextAvailableTime - Date.now()),
+      nextAvailableIn: Math.max(
+        0,
+        this.state.nextAvailableTime - this.clock.now()
+      ),
     });
+    this.run(task);
+  }
 
+  /*
+    With a shared store the slot is reserved atomically first. Another process
+    may already have taken the next slot, in which case we wait for ours.
+  */
+  private async reserve(task: QueueTask<any>) {
+    let startAt = 0;
+    try {
+      const state = await this.store!.update(this.storeKey, (current) => {
+        const now = this.clock.now();
+        const base = this.resetIfElapsed(current ?? this.state, now);
+        startAt = Math.max(now, base.nextAvailableTime);
+        return { ...base, nextAvailableTime: startAt + base.currentInterval };
+      });
+      this.state = state;
+    } catch (error) {
+      this.running--;
+      task.reject(error);
+      this.log("store-error", { error });
+      this.pump();
+      return;
+    }
+
+    this.log("start", {
+      running: this.running,
+      startIn: Math.max(0, startAt - this.clock.now()),
+    });
+    try {
+      await sleep(startAt - this.clock.now(), this.clock, task.signal);
+    } catch (error) {
+      this.running--;
+      task.reject(error);
+      this.pump();
+      return;
+    }
+    this.run(task);
+  }
+
+  private run(task: QueueTask<any>) {
+    const { priority, signal } = task;
     Promise.resolve()
+      .then(() => this.lane?.schedule(async () => {}, { priority, signal }))
       .then(() => task.fn())
       .then((result) => {
         this.running--;
@@ -143,15 +308,100 @@ export class SmoothRateLimiter {
       });
   }
 
-  private maybeReset(now: number) {
-    if (this.windowResetAt && now >= this.windowResetAt) {
+  /*
+    Applies a state transition locally right away and, when a store is
+    configured, to the shared state as well. The store result wins once it
+    arrives, since other processes may have changed it in the meantime.
+  */
+  private mutate(fn: (state: RateLimitState, now: number) => RateLimitState) {
+    this.state = fn(this.state, this.clock.now());
+    if (!this.store) {
+      return;
+    }
+    Promise.resolve(
+      this.store.update(this.storeKey, (current) =>
+        fn(current ?? this.state, this.clock.now())
+      )
+    )
+      .then((state) => {
+        this.state = state;
+        this.pump();
+      })
+      .catch((error) => this.log("store-error", { error }));
+  }
+
+  private applyHeaders(
+    state: RateLimitState,
+    rate: RateHeaders,
+    now: number
+  ): RateLimitState {
+    let next = this.resetIfElapsed(state, now);
+
+    if (typeof rate.resetSeconds === "number") {
+      const { resetAt, durationMs } = this.resolveReset(
+        rate.resetSeconds,
+        now,
+        next.windowDuration
+      );
+      if (resetAt) {
+        next = {
+          ...next,
+          windowResetAt: resetAt,
+          windowDuration: durationMs || next.windowDuration,
+        };
+      }
+    }
+
+    if (typeof rate.remaining === "number") {
+      const remaining = Math.max(0, rate.remaining);
+      // Other requests in flight were sent before this response was counted.
+      const tokens = Math.max(0, remaining - Math.max(0, this.running - 1));
+      const resetAt = next.windowResetAt;
+      const timeToReset = resetAt
+        ? Math.max(0, resetAt - now)
+        : next.windowDuration;
+      const window = timeToReset || next.windowDuration;
+      next = {
+        ...next,
+        // The slot after this one was booked with the previous interval, so
+        // an exhausted budget has to push it out to the reset explicitly.
+        nextAvailableTime:
+          tokens === 0
+            ? Math.max(next.nextAvailableTime, now + window)
+            : next.nextAvailableTime,
+        currentInterval: this.calculateInterval(tokens, window),
+        currentConcurrency: this.calculateConcurrency(tokens, window),
+      };
+      this.log("headers", {
+        remaining,
+        interval: next.currentInterval,
+        concurrency: next.currentConcurrency,
+        timeToReset,
+      });
+    }
+
+    return next;
+  }
+
+  private resetIfElapsed(state: RateLimitState, now: number): RateLimitState {
+    if (state.windowResetAt && now >= state.windowResetAt) {
       this.log("reset", {});
-      this.windowResetAt = undefined;
-      this.windowDuration = DEFAULT_WINDOW_MS;
-      this.currentInterval = this.defaultInterval();
-      this.currentConcurrency = this.baseConcurrency;
-      this.nextAvailableTime = Math.min(this.nextAvailableTime, now);
+      return {
+        ...this.initialState(),
+        nextAvailableTime: Math.min(state.nextAvailableTime, now),
+      };
     }
+    return state;
+  }
+
+  private initialState(): RateLimitState {
+    return {
+      nextAvailableTime: 0,
+      currentInterval: this.defaultInterval(),
+      currentConcurrency: this.baseConcurrency,
+      windowResetAt: undefined,
+      windowDuration: DEFAULT_WINDOW_MS,
+    };
   }
 
   private calculateInterval(tokens: number, timeToReset: number) {
@@ -174,7 +424,11 @@ export class SmoothRateLimiter {
     return Math.max(this.baseConcurrency, concurrency);
   }
 
-  private resolveReset(resetSeconds: number, now: number) {
+  private resolveReset(
+    resetSeconds: number,
+    now: number,
+    windowDuration: number
+  ) {
     if (!Number.isFinite(resetSeconds)) {
       return { resetAt: undefined, durationMs: undefined };
     }
@@ -190,16 +444,19 @@ export class SmoothRateLimiter {
     }
 
     const duration = seconds * 1000;
-    return { resetAt: now + duration, durationMs: duration || this.windowDuration };
+    return { resetAt: now + duration, durationMs: duration || windowDuration };
   }
 
   private defaultInterval() {
-    return Math.max(this.minInterval, Math.ceil(DEFAULT_WINDOW_MS / this.defaultRpm));
+    return Math.max(
+      this.minInterval,
+      Math.ceil(DEFAULT_WINDOW_MS / this.defaultRpm)
+    );
   }
 
   private scheduleTimer(ms: number) {
     const delay = clampDelay(ms);
-    const now = Date.now();
+    const now = this.clock.now();
     const delayOrZero = delay === 0 ? 0 : Math.min(delay, MAX_TIMEOUT);
     const dueTime = now + delayOrZero;
 
@@ -207,12 +464,12 @@ export class SmoothRateLimiter {
       if (dueTime >= this.timerDueTime - 5) {
         return;
       }
-      clearTimeout(this.timer);
+      this.clock.clearTimeout(this.timer);
       this.timer = undefined;
     }
 
     this.timerDueTime = dueTime;
-    this.timer = setTimeout(() => {
+    this.timer = this.clock.setTimeout(() => {
       this.timer = undefined;
       this.timerDueTime = 0;
       this.pump();
@@ -221,7 +478,7 @@ export class SmoothRateLimiter {
 
   private clearTimer() {
     if (this.timer) {
-      clearTimeout(this.timer);
+      this.clock.clearTimeout(this.timer);
       this.timer = undefined;
       this.timerDueTime = 0;
     }
@@ -234,26 +491,55 @@ export class SmoothRateLimiter {
   }
 }
 
-export type RateLimiterManagerOptions = SmoothRateLimiterOptions;
+export type RateLimiterManagerOptions = Omit<SmoothRateLimiterOptions, "lane">;
 
+/**
+ * One limiter per path, each adapting to that path's rate headers. Starts on
+ * every path also go through a shared lane with no interval of its own: it
+ * only orders starts released together by priority, so a `high` command is
+ * not sent behind `low` polls on other endpoints, while the paths' budgets
+ * alone decide throughput.
+ */
 export class RateLimiterManager {
   private readonly limiters = new Map<string, SmoothRateLimiter>();
   private readonly options: SmoothRateLimiterOptions;
+  private readonly lane: SmoothRateLimiter;
 
   constructor(options: RateLimiterManagerOptions = {}) {
     this.options = options;
+    this.lane = new SmoothRateLimiter({
+      requestsPerMinute: Infinity,
+      clock: options.clock,
+      debug: options.debug,
+    });
   }
 
   forPath(path: string): SmoothRateLimiter {
     const key = this.normalizePath(path);
     let limiter = this.limiters.get(key);
     if (!limiter) {
-      limiter = new SmoothRateLimiter(this.options);
+      limiter = new SmoothRateLimiter({
+        ...this.options,
+        storeKey: `${this.options.storeKey ?? "default"}:${key}`,
+        lane: this.lane,
+      });
       this.limiters.set(key, limiter);
     }
     return limiter;
   }
 
+  /** Current state of every limiter, keyed by normalised path. */
+  stats() {
+    return [...this.limiters].map(([path, limiter]) => ({
+      server: this.options.storeKey ?? "default",
+      path,
+      queueDepth: limiter.queueDepth,
+      active: limiter.activeCount,
+      concurrency: limiter.concurrency,
+      intervalMs: limiter.interval,
+    }));
+  }
+
   private normalizePath(path: string) {
     try {
       const url = new URL(path, "https://placeholder.local");
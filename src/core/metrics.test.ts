@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { limiterStoreKey } from "./http";
+import { MetricsRegistry } from "./metrics";
+
+describe("MetricsRegistry", () => {
+  it("labels limiter gauges per server when clients share a registry", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const metrics = new MetricsRegistry();
+    for (const serverKey of ["a", "b"]) {
+      const mock = createMockServer({ serverKey, now: () => clock.now() });
+      const api = new PRC({ serverKey, fetch: mock.fetch, clock, metrics });
+      await api.server.status();
+    }
+
+    const gauges = metrics
+      .toPrometheus()
+      .split("\n")
+      .filter((line) => line.startsWith("liberlc_limiter_queue_depth{"));
+
+    assert.deepEqual(gauges, [
+      `liberlc_limiter_queue_depth{server="${limiterStoreKey("a")}",path="/v1/server"} 0`,
+      `liberlc_limiter_queue_depth{server="${limiterStoreKey("b")}",path="/v1/server"} 0`,
+    ]);
+  });
+});
@@ -0,0 +1,284 @@
+import type { HttpClientHooks } from "./hooks";
+import type { RateLimiterManager } from "./limiter";
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+class Counter {
+  readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels, by = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += by;
+    } else {
+      this.values.set(key, { labels, value: by });
+    }
+  }
+
+  total() {
+    let sum = 0;
+    for (const { value } of this.values.values()) sum += value;
+    return sum;
+  }
+}
+
+class Histogram {
+  readonly values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((le, i) => {
+      if (value <= le) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+}
+
+export type LimiterMetrics = {
+  /** Budget the limiter belongs to: a hash of the server (or global) key. */
+  server: string;
+  path: string;
+  queueDepth: number;
+  active: number;
+  concurrency: number;
+  intervalMs: number;
+};
+
+export type MetricsSnapshot = {
+  requests: {
+    endpoint: string;
+    method: string;
+    status: string;
+    count: number;
+  }[];
+  latency: {
+    endpoint: string;
+    method: string;
+    count: number;
+    sumSeconds: number;
+    /** Cumulative counts per upper bound (seconds), as in Prometheus. */
+    buckets: { le: number; count: number }[];
+  }[];
+  rateLimited: Record<string, number>;
+  retries: Record<string, number>;
+  cache: { hits: number; lookups: number; hitRatio: number };
+  limiters: LimiterMetrics[];
+};
+
+export type MetricsRegistryOptions = {
+  /** Latency histogram buckets in seconds. */
+  buckets?: number[];
+  /** Prefix of every Prometheus metric name. Defaults to `liberlc`. */
+  prefix?: string;
+};
+
+/**
+ * Collects request, retry, cache and limiter metrics. `HttpClient` feeds it
+ * through its lifecycle hooks; limiter gauges are read from the tracked
+ * `RateLimiterManager`s whenever a snapshot is taken.
+ */
+export class MetricsRegistry {
+  private readonly prefix: string;
+  private readonly requests = new Counter();
+  private readonly latency: Histogram;
+  private readonly rateLimited = new Counter();
+  private readonly retries = new Counter();
+  private readonly cacheHits = new Counter();
+  private readonly cacheLookups = new Counter();
+  private readonly managers = new Set<RateLimiterManager>();
+
+  constructor(options: MetricsRegistryOptions = {}) {
+    this.prefix = options.prefix ?? "liberlc";
+    this.latency = new Histogram(
+      [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b)
+    );
+  }
+
+  /** Hooks that record request metrics; installed by `HttpClient`. */
+  hooks(): HttpClientHooks {
+    return {
+      onResponse: (ctx) => {
+        const endpoint = endpointOf(ctx.url);
+        this.requests.inc({
+          endpoint,
+          method: ctx.method,
+          status: String(ctx.status),
+        });
+        this.latency.observe(
+          { endpoint, method: ctx.method },
+          ctx.latencyMs / 1000
+        );
+        if (ctx.method === "GET" && (ctx.status === 304 || ctx.status < 300)) {
+          this.cacheLookups.inc({ endpoint });
+        }
+      },
+      onRateLimit: (ctx) =>
+        this.rateLimited.inc({ endpoint: endpointOf(ctx.url) }),
+      onRetry: (ctx) => this.retries.inc({ endpoint: endpointOf(ctx.url) }),
+      onCacheHit: (ctx) => {
+        const endpoint = endpointOf(ctx.url);
+        this.cacheHits.inc({ endpoint, kind: ctx.kind });
+        // Policy hits never reach `onResponse`, so count their lookup here.
+        if (ctx.kind === "fresh" || ctx.kind === "stale") {
+          this.cacheLookups.inc({ endpoint });
+        }
+      },
+    };
+  }
+
+  trackLimiters(manager: RateLimiterManager) {
+    this.managers.add(manager);
+  }
+
+  snapshot(): MetricsSnapshot {
+    const hits = this.cacheHits.total();
+    const lookups = this.cacheLookups.total();
+
+    return {
+      requests: [...this.requests.values.values()].map(({ labels, value }) => ({
+        endpoint: labels.endpoint,
+        method: labels.method,
+        status: labels.status,
+        count: value,
+      })),
+      latency: [...this.latency.values.values()].map((entry) => ({
+        endpoint: entry.labels.endpoint,
+        method: entry.labels.method,
+        count: entry.count,
+        sumSeconds: entry.sum,
+        buckets: this.latency.buckets.map((le, i) => ({
+          le,
+          count: entry.counts[i],
+        })),
+      })),
+      rateLimited: byEndpoint(this.rateLimited),
+      retries: byEndpoint(this.retries),
+      cache: { hits, lookups, hitRatio: lookups ? hits / lookups : 0 },
+      limiters: [...this.managers].flatMap((manager) => manager.stats()),
+    };
+  }
+
+  /** Serialises the current state in the Prometheus text exposition format. */
+  toPrometheus(): string {
+    const p = this.prefix;
+    const lines: string[] = [];
+    const counter = (name: string, help: string, c: Counter) => {
+      lines.push(`# HELP ${p}_${name} ${help}`, `# TYPE ${p}_${name} counter`);
+      for (const { labels, value } of c.values.values()) {
+        lines.push(`${p}_${name}${formatLabels(labels)} ${value}`);
+      }
+    };
+
+    counter("requests_total", "HTTP responses received.", this.requests);
+    counter("rate_limited_total", "Rate limited responses.", this.rateLimited);
+    counter("retries_total", "Retried requests.", this.retries);
+    counter("cache_hits_total", "Responses served from cache.", this.cacheHits);
+    counter(
+      "cache_lookups_total",
+      "Cacheable GET responses and cache policy hits.",
+      this.cacheLookups
+    );
+
+    const h = `${p}_request_duration_seconds`;
+    lines.push(`# HELP ${h} Request latency.`, `# TYPE ${h} histogram`);
+    for (const entry of this.latency.values.values()) {
+      this.latency.buckets.forEach((le, i) => {
+        const labels = formatLabels({ ...entry.labels, le: String(le) });
+        lines.push(`${h}_bucket${labels} ${entry.counts[i]}`);
+      });
+      const inf = formatLabels({ ...entry.labels, le: "+Inf" });
+      lines.push(`${h}_bucket${inf} ${entry.count}`);
+      lines.push(`${h}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${h}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+
+    const limiters = this.snapshot().limiters;
+    const gauge = (
+      name: string,
+      help: string,
+      pick: (l: LimiterMetrics) => number
+    ) => {
+      lines.push(`# HELP ${p}_${name} ${help}`, `# TYPE ${p}_${name} gauge`);
+      for (const limiter of limiters) {
+        const labels = formatLabels({
+          server: limiter.server,
+          path: limiter.path,
+        });
+        lines.push(`${p}_${name}${labels} ${pick(limiter)}`);
+      }
+    };
+    gauge("limiter_queue_depth", "Queued requests.", (l) => l.queueDepth);
+    gauge("limiter_active", "Requests in flight.", (l) => l.active);
+    gauge("limiter_concurrency", "Allowed concurrency.", (l) => l.concurrency);
+    gauge(
+      "limiter_interval_ms",
+      "Spacing between requests.",
+      (l) => l.intervalMs
+    );
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  reset() {
+    for (const metric of [
+      this.requests,
+      this.rateLimited,
+      this.retries,
+      this.cacheHits,
+      this.cacheLookups,
+    ]) {
+      metric.values.clear();
+    }
+    this.latency.values.clear();
+  }
+}
+
+function endpointOf(url: string) {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split("?")[0];
+  }
+}
+
+function labelKey(labels: Labels) {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(",");
+}
+
+function byEndpoint(counter: Counter) {
+  const result: Record<string, number> = {};
+  for (const { labels, value } of counter.values.values()) {
+    result[labels.endpoint] = (result[labels.endpoint] ?? 0) + value;
+  }
+  return result;
+}
+
+function formatLabels(labels: Labels) {
+  const parts = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
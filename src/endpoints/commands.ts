@@ -0,0 +1,69 @@
+import { RequestOptions } from "../core/http";
+import { ServerAPI } from "./server";
+import { CommandTarget, CommandTargets, Commands } from "../utils/commands";
+
+/**
+ * Typed wrappers around `ServerAPI.command`. Arguments are validated locally,
+ * so malformed commands reject with a `CommandValidationError` before
+ * spending a request.
+ */
+export class CommandsAPI {
+  constructor(private server: ServerAPI) {}
+
+  async kick(
+    target: CommandTargets,
+    reason?: string,
+    options?: RequestOptions
+  ) {
+    return this.server.command(Commands.kick(target, reason), options);
+  }
+
+  async ban(target: CommandTargets, reason?: string, options?: RequestOptions) {
+    return this.server.command(Commands.ban(target, reason), options);
+  }
+
+  /** Accepts usernames or numeric user IDs (e.g. keys of `bans()`). */
+  async unban(target: CommandTargets, options?: RequestOptions) {
+    return this.server.command(Commands.unban(target), options);
+  }
+
+  async pm(target: CommandTargets, message: string, options?: RequestOptions) {
+    return this.server.command(Commands.pm(target, message), options);
+  }
+
+  async message(message: string, options?: RequestOptions) {
+    return this.server.command(Commands.message(message), options);
+  }
+
+  async hint(message: string, options?: RequestOptions) {
+    return this.server.command(Commands.hint(message), options);
+  }
+
+  async tp(
+    target: CommandTargets,
+    destination: CommandTarget,
+    options?: RequestOptions
+  ) {
+    return this.server.command(Commands.tp(target, destination), options);
+  }
+
+  async wanted(target: CommandTargets, options?: RequestOptions) {
+    return this.server.command(Commands.wanted(target), options);
+  }
+
+  async unwanted(target: CommandTargets, options?: RequestOptions) {
+    return this.server.command(Commands.unwanted(target), options);
+  }
+
+  async jail(target: CommandTargets, options?: RequestOptions) {
+    return this.server.command(Commands.jail(target), options);
+  }
+
+  async unjail(target: CommandTargets, options?: RequestOptions) {
+    return this.server.command(Commands.unjail(target), options);
+  }
+
+  async heal(target: CommandTargets, options?: RequestOptions) {
+    return this.server.command(Commands.heal(target), options);
+  }
+}
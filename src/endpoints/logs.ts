@@ -1,40 +1,65 @@
-import z from "zod";
-import { HttpClient } from "../core/http";
+import { HttpClient, RequestOptions } from "../core/http";
 import {
   JoinLogEntry,
   KillLogEntry,
   CommandLogEntry,
   ModCallEntry,
+  TCommandLogEntry,
 } from "../types/responses";
+import { parseCommand, ParsedCommand } from "../utils/command-parser";
+
+export type TParsedCommandLogEntry = TCommandLogEntry & {
+  Action: ParsedCommand;
+};
+
+export type CommandLogOptions = RequestOptions & {
+  /** Adds a parsed `Action` to every entry. */
+  parse?: boolean;
+};
 
 export class LogsAPI {
   constructor(private http: HttpClient) {}
 
-  joins() {
+  joins(options?: RequestOptions) {
     return this.http.request(
       "/v1/server/joinlogs",
-      { method: "GET" },
+      { method: "GET", ...options },
       JoinLogEntry.array()
     );
   }
 
-  async kills() {
-    return z
-      .array(KillLogEntry)
-      .parse(await this.http.request("/v1/server/killlogs", { method: "GET" }));
+  kills(options?: RequestOptions) {
+    return this.http.request(
+      "/v1/server/killlogs",
+      { method: "GET", ...options },
+      KillLogEntry.array()
+    );
   }
 
-  commands() {
-    return this.http.request(
+  commands(
+    options: CommandLogOptions & { parse: true }
+  ): Promise<TParsedCommandLogEntry[]>;
+  commands(options?: CommandLogOptions): Promise<TCommandLogEntry[]>;
+  async commands({ parse, ...options }: CommandLogOptions = {}) {
+    // Parsed after the request so the cached payload keeps the API's shape.
+    const entries = await this.http.request(
       "/v1/server/commandlogs",
-      { method: "GET" },
+      { method: "GET", ...options },
       CommandLogEntry.array()
     );
+    return parse
+      ? entries.map((entry) => ({
+          ...entry,
+          Action: parseCommand(entry.Command),
+        }))
+      : entries;
   }
 
-  async modCalls() {
-    return z
-      .array(ModCallEntry)
-      .parse(await this.http.request("/v1/server/modcalls", { method: "GET" }));
+  modCalls(options?: RequestOptions) {
+    return this.http.request(
+      "/v1/server/modcalls",
+      { method: "GET", ...options },
+      ModCallEntry.array()
+    );
   }
 }
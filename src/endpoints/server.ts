@@ -1,21 +1,39 @@
-import { HttpClient } from "../core/http";
-import { ServerStatus } from "../types/responses";
+import { HttpClient, RequestOptions } from "../core/http";
+import { ServerStatus, VehiclesResponse } from "../types/responses";
 
 export class ServerAPI {
   constructor(private http: HttpClient) {}
 
-  status() {
-    return this.http.request("/v1/server", { method: "GET" }, ServerStatus);
+  status(options?: RequestOptions) {
+    return this.http.request(
+      "/v1/server",
+      { method: "GET", ...options },
+      ServerStatus
+    );
+  }
+
+  /**
+   * Vehicles currently spawned in the server, including their livery (texture).
+   * `Owner.UserId` is only present when PRC returns the owner as `Name:Id`;
+   * `api.resolver.resolveVehicles()` fills it in for bare usernames.
+   */
+  vehicles(options?: RequestOptions) {
+    return this.http.request(
+      "/v1/server/vehicles",
+      { method: "GET", ...options },
+      VehiclesResponse
+    );
   }
 
   /**
    * Executes a command on the server (as Virtual Server Management).
    * Returns 204 No Content on success.
    */
-  command(command: string) {
+  command(command: string, options?: RequestOptions) {
     return this.http.request("/v1/server/command", {
       method: "POST",
       body: JSON.stringify({ command }),
+      ...options,
     });
   }
 }
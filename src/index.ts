@@ -1,8 +1,13 @@
-import { HttpClient, HttpClientOptions, HttpError } from "./core/http";
-import { ServerAPI } from "./endpoints/server";
-import { PlayersAPI } from "./endpoints/players";
-import { LogsAPI } from "./endpoints/logs";
 import {
+  HttpClient,
+  HttpClientOptions,
+  HttpError,
+  RequestOptions,
+  ErrorCode,
+} from "./core/http";
+import {
+  parsePlayer,
+  REMOTE_SERVER,
   PermissionEnum,
   PlayerSchema,
   PlayersResponse,
@@ -13,10 +18,13 @@ import {
   ModCallEntry,
   BanEntry,
   VehicleEntry,
+  VehiclesResponse,
   StaffResponse,
+  QueueResponse,
 } from "./types/responses";
 import type {
   TServerStatus,
+  TPlayer,
   TPlayersResponse,
   TJoinLogEntry,
   TKillLogEntry,
@@ -24,24 +32,42 @@ import type {
   TModCallEntry,
   TBanEntry,
   TVehicleEntry,
+  TVehiclesResponse,
   TStaffResponse,
+  TQueueResponse,
 } from "./types/responses";
 
-export class PRC {
-  readonly server: ServerAPI;
-  readonly players: PlayersAPI;
-  readonly logs: LogsAPI;
-
-  constructor(opts: Omit<HttpClientOptions, "retries"> & { retries?: number }) {
-    const http = new HttpClient(opts);
-    this.server = new ServerAPI(http);
-    this.players = new PlayersAPI(http);
-    this.logs = new LogsAPI(http);
-  }
-}
-
-export { HttpClient, HttpError };
-export type { HttpClientOptions };
+export { PRC } from "./client";
+export type { PRCOptions } from "./client";
+export { PRCCluster } from "./cluster";
+export type { PRCClusterOptions, ClusterResult } from "./cluster";
+export { HttpClient, HttpError, ErrorCode };
+export {
+  PRCError,
+  RateLimitError,
+  ServerOfflineError,
+  AuthError,
+  CommandRejectedError,
+  ModuleOutdatedError,
+  SchemaValidationError,
+  AbortError,
+  TimeoutError,
+  QueueFullError,
+  createHttpError,
+  isPRCError,
+  isHttpError,
+  isRateLimitError,
+  isServerOfflineError,
+  isAuthError,
+  isCommandRejectedError,
+  isModuleOutdatedError,
+  isSchemaValidationError,
+  isAbortError,
+  isTimeoutError,
+  isQueueFullError,
+} from "./core/errors";
+export type { HttpClientOptions, RequestOptions };
+export type { CachePolicy } from "./core/http";
 export {
   SmoothRateLimiter,
   RateLimiterManager,
@@ -49,10 +75,232 @@ export {
 export type {
   SmoothRateLimiterOptions,
   RateLimiterManagerOptions,
+  ScheduleOptions,
+  RequestPriority,
 } from "./core/limiter";
-export { parseRateHeaders } from "./utils/headers";
+export {
+  MemoryRateLimitStore,
+  FileRateLimitStore,
+} from "./core/limiter-store";
+export type {
+  RateLimitStore,
+  RateLimitState,
+  FileRateLimitStoreOptions,
+} from "./core/limiter-store";
+export { parseRateHeaders, sleep } from "./utils/headers";
+export { systemClock, VirtualClock } from "./utils/clock";
+export type { Clock, ClockTimer } from "./utils/clock";
+export { MemoryCacheStore, FileCacheStore } from "./core/cache";
+export { redactHeaders } from "./core/hooks";
+export { MetricsRegistry } from "./core/metrics";
+export type {
+  MetricsSnapshot,
+  MetricsRegistryOptions,
+  LimiterMetrics,
+} from "./core/metrics";
+export type {
+  HttpClientHooks,
+  RequestHookContext,
+  ResponseHookContext,
+  RetryHookContext,
+  RateLimitHookContext,
+  CacheHitHookContext,
+  DataHookContext,
+  ErrorHookContext,
+} from "./core/hooks";
+export type {
+  CacheStore,
+  CacheEntry,
+  MemoryCacheStoreOptions,
+  FileCacheStoreOptions,
+} from "./core/cache";
+export {
+  Commands,
+  CommandValidationError,
+  MAX_COMMAND_LENGTH,
+} from "./utils/commands";
+export type {
+  CommandName,
+  CommandTarget,
+  CommandTargets,
+} from "./utils/commands";
+export {
+  buildModerationReport,
+  commandVerb,
+  exportModerationReport,
+  exportRows,
+} from "./utils/reports";
+export type {
+  ExportFormat,
+  ExportOptions,
+  ModerationReport,
+  ModerationReportOptions,
+  ModeratorStats,
+} from "./utils/reports";
+export { parseCommand } from "./utils/command-parser";
+export type {
+  ParsedCommand,
+  CommandAction,
+  TargetAction,
+  ValueAction,
+} from "./utils/command-parser";
+export {
+  defaultEmbedTemplates,
+  escapeMarkdown,
+  recordToEmbed,
+  toEmbed,
+} from "./integrations/discord-embeds";
+export type {
+  DiscordEmbed,
+  DiscordEmbedTemplates,
+  DiscordLogEntries,
+  DiscordLogKind,
+  EmbedTemplate,
+} from "./integrations/discord-embeds";
+export {
+  DiscordWebhook,
+  DiscordWebhookError,
+} from "./integrations/discord-webhook";
+export type {
+  DiscordWebhookOptions,
+  DiscordWebhookPayload,
+  ForwardEventsOptions,
+} from "./integrations/discord-webhook";
+export {
+  DiscordCommandRouter,
+  defaultSlashCommands,
+  staffRoleOf,
+} from "./integrations/discord-commands";
+export type {
+  DiscordCommandRouterOptions,
+  SlashCommandDefinition,
+  SlashCommandInvocation,
+  SlashCommandOptions,
+  SlashCommandResult,
+  StaffRole,
+} from "./integrations/discord-commands";
+export { ServerAPI } from "./endpoints/server";
+export { PlayersAPI } from "./endpoints/players";
+export { LogsAPI } from "./endpoints/logs";
+export type {
+  CommandLogOptions,
+  TParsedCommandLogEntry,
+} from "./endpoints/logs";
+export { CommandsAPI } from "./endpoints/commands";
+export { EventStream } from "./services/events";
+export {
+  CommandQueue,
+  CommandVerificationError,
+  CommandTimeoutError,
+} from "./services/command-queue";
+export type {
+  CommandQueueOptions,
+  EnqueueOptions,
+} from "./services/command-queue";
+export { PlayerResolver } from "./services/player-resolver";
+export { SessionTracker } from "./services/sessions";
+export {
+  SnapshotDiffer,
+  diffBans,
+  diffPlayers,
+  diffStaff,
+  diffStatus,
+} from "./services/snapshots";
+export type {
+  BanChange,
+  PlayerSnapshotChange,
+  SnapshotChange,
+  SnapshotDifferEvents,
+  SnapshotDifferOptions,
+  SnapshotSource,
+  StaffChange,
+  StaffRoleName,
+  StatusChange,
+  StatusField,
+} from "./services/snapshots";
+export { RulesEngine } from "./services/rules";
+export type {
+  Rule,
+  RuleAction,
+  RuleAuditEntry,
+  RuleCondition,
+  RuleContext,
+  RuleEvent,
+  RuleMatch,
+  RulePlayer,
+  RulesEngineEvents,
+  RulesEngineOptions,
+} from "./services/rules";
+export {
+  BanManager,
+  MemoryBanStore,
+  FileBanStore,
+} from "./services/bans";
+export type {
+  BanImportResult,
+  BanListExport,
+  BanManagerEvents,
+  BanManagerOptions,
+  BanOptions,
+  BanReconciliation,
+  BanRecord,
+  BanStore,
+  BanTarget,
+  FileBanStoreOptions,
+  UnbanReason,
+} from "./services/bans";
+export { QueueMonitor } from "./services/queue-monitor";
+export type {
+  QueueEntry,
+  QueueMonitorEvents,
+  QueueMonitorOptions,
+  QueueState,
+  QueueThresholdCrossing,
+} from "./services/queue-monitor";
+export { LogArchiver } from "./services/archiver";
+export type { LogArchiverOptions, LogArchiverEvents } from "./services/archiver";
+export {
+  MemoryArchiveStore,
+  JsonlArchiveStore,
+  SqliteArchiveStore,
+} from "./services/archive-store";
+export type {
+  ArchiveStore,
+  ArchiveRecord,
+  ArchiveQuery,
+  LogEntries,
+  JsonlArchiveStoreOptions,
+  SqliteArchiveStoreOptions,
+  SqliteDatabase,
+} from "./services/archive-store";
+export type {
+  PlayerSession,
+  PlayerPlaytime,
+  PlayerCountBucket,
+  SessionEndReason,
+  SessionRange,
+  SessionTrackerOptions,
+} from "./services/sessions";
+export type {
+  PlayerIdentity,
+  PlayerMatch,
+  PlayerMatchKind,
+  PlayerResolverOptions,
+  PlayerSearchOptions,
+} from "./services/player-resolver";
+export type {
+  EventStreamOptions,
+  EventStreamEvents,
+  EventCursor,
+  EventSource,
+  LogCursor,
+  LogSource,
+  PlayerChange,
+} from "./services/events";
 
 export {
+  parsePlayer,
+  REMOTE_SERVER,
   PermissionEnum,
   PlayerSchema,
   PlayersResponse,
@@ -63,11 +311,14 @@ export {
   ModCallEntry,
   BanEntry,
   VehicleEntry,
+  VehiclesResponse,
   StaffResponse,
+  QueueResponse,
 };
 
 export type {
   TServerStatus,
+  TPlayer,
   TPlayersResponse,
   TJoinLogEntry,
   TKillLogEntry,
@@ -75,6 +326,8 @@ export type {
   TModCallEntry,
   TBanEntry,
   TVehicleEntry,
+  TVehiclesResponse,
   TStaffResponse,
+  TQueueResponse,
 };
 export type { RateHeaders } from "./utils/headers";
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer, settle } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { DiscordCommandRouter, staffRoleOf } from "./discord-commands";
+
+/* Discord users linked to Roblox IDs: the owner (1), an admin and a mod. */
+const links: Record<string, number> = { owner: 1, admin: 5, mod: 6 };
+
+function setup() {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const mock = createMockServer({
+    serverKey: "key",
+    now: () => clock.now(),
+    rateLimit: false,
+    ownerId: 1,
+  });
+  mock.setStaff({ admins: { 5: "boss" }, mods: { 6: "helper" } });
+  const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+  const router = new DiscordCommandRouter(api.server, api.players, {
+    resolveRobloxId: (discordUserId) => links[discordUserId],
+    clock,
+  });
+  const handle = (
+    userId: string,
+    commandName: string,
+    options?: Record<string, string>
+  ) => settle(clock, router.handle({ userId, commandName, options }));
+  return { clock, mock, router, handle };
+}
+
+const sent = (mock: ReturnType<typeof createMockServer>) =>
+  mock.requests
+    .filter((request) => request.path === "/v1/server/command")
+    .map((request) => (request.body as { command: string }).command);
+
+describe("DiscordCommandRouter", () => {
+  it("runs commands for staff with a high enough role", async () => {
+    const { mock, handle } = setup();
+
+    const kick = await handle("mod", "kick", { player: "john", reason: "RDM" });
+    const ban = await handle("owner", "ban", { player: "john" });
+
+    assert.deepEqual(kick, {
+      ok: true,
+      command: ":kick john RDM",
+      role: "mod",
+    });
+    assert.deepEqual(ban, { ok: true, command: ":ban john", role: "owner" });
+    assert.deepEqual(sent(mock), [":kick john RDM", ":ban john"]);
+  });
+
+  it("refuses unknown commands, unlinked members and low roles", async () => {
+    const { mock, handle } = setup();
+
+    const results = [
+      await handle("owner", "dance"),
+      await handle("stranger", "kick", { player: "john" }),
+      await handle("mod", "ban", { player: "john" }),
+    ];
+
+    assert.deepEqual(
+      results.map((result) => !result.ok && result.reason),
+      ["unknown-command", "not-linked", "forbidden"]
+    );
+    assert.deepEqual(sent(mock), []);
+  });
+
+  it("reports invalid options and failed commands without throwing", async () => {
+    const { mock, handle } = setup();
+
+    const invalid = await handle("admin", "kick", { player: "john doe" });
+    mock.fail("/v1/server/command", { status: 500 }, 10);
+    const failed = await handle("admin", "kick", { player: "john" });
+
+    assert.equal(!invalid.ok && invalid.reason, "invalid");
+    assert.equal(!failed.ok && failed.reason, "failed");
+  });
+
+  it("caches the staff list until it expires or is invalidated", async () => {
+    const { clock, mock, router, handle } = setup();
+    const staffLookups = () =>
+      mock.requests.filter((request) => request.path === "/v1/server/staff")
+        .length;
+
+    await handle("mod", "heal", { player: "john" });
+    await handle("mod", "heal", { player: "john" });
+    assert.equal(staffLookups(), 1);
+
+    mock.setStaff({ mods: {} });
+    router.invalidate();
+    assert.equal(await settle(clock, router.roleOf("mod")), undefined);
+    assert.equal(staffLookups(), 2);
+
+    await clock.advance(60_000);
+    await settle(clock, router.roleOf("mod"));
+    assert.equal(staffLookups(), 3);
+  });
+});
+
+describe("staffRoleOf", () => {
+  it("returns the highest role", () => {
+    const staff = { CoOwners: [2], Admins: { "2": "john" }, Mods: {} };
+
+    assert.equal(staffRoleOf(staff, 2), "coOwner");
+    assert.equal(staffRoleOf(staff, "2", 2), "owner");
+    assert.equal(staffRoleOf(staff, 3), undefined);
+  });
+});
@@ -0,0 +1,246 @@
+import { ServerAPI } from "../endpoints/server";
+import { PlayersAPI } from "../endpoints/players";
+import type { TStaffResponse } from "../types/responses";
+import { type Clock, systemClock } from "../utils/clock";
+import { Commands, CommandValidationError } from "../utils/commands";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type StaffRole = "mod" | "admin" | "coOwner" | "owner";
+
+const ROLE_RANK: Record<StaffRole, number> = {
+  mod: 1,
+  admin: 2,
+  coOwner: 3,
+  owner: 4,
+};
+
+export type SlashCommandOptions = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+export type SlashCommandDefinition = {
+  /** Lowest in-game staff role allowed to run the command. */
+  role: StaffRole;
+  /** Builds the in-game command. Throwing a `CommandValidationError` rejects the invocation. */
+  build: (options: SlashCommandOptions) => string;
+};
+
+/** What a Discord bot hands over for a slash-command interaction. */
+export type SlashCommandInvocation = {
+  commandName: string;
+  /** Discord user ID of the invoking member. */
+  userId: string;
+  options?: SlashCommandOptions;
+};
+
+export type SlashCommandResult =
+  | { ok: true; command: string; role: StaffRole }
+  | {
+      ok: false;
+      reason:
+        | "unknown-command"
+        | "not-linked"
+        | "forbidden"
+        | "invalid"
+        | "failed";
+      message: string;
+      error?: unknown;
+    };
+
+export type DiscordCommandRouterOptions = {
+  /** Defaults to `defaultSlashCommands`. */
+  commands?: Record<string, SlashCommandDefinition>;
+  /**
+   * Maps a Discord user to their Roblox user ID, e.g. through your own
+   * linking table or a verification service.
+   */
+  resolveRobloxId: (
+    discordUserId: string
+  ) => MaybePromise<string | number | undefined | null>;
+  /** How long the staff list and owner are cached. Defaults to 60s. */
+  staffTtlMs?: number;
+  clock?: Clock;
+};
+
+const str = (value: SlashCommandOptions[string]) =>
+  value == null ? undefined : String(value);
+
+/** Slash commands for the typed `Commands` builders, gated by role. */
+export const defaultSlashCommands: Record<string, SlashCommandDefinition> = {
+  kick: {
+    role: "mod",
+    build: (o) => Commands.kick(str(o.player) ?? "", str(o.reason)),
+  },
+  ban: {
+    role: "admin",
+    build: (o) => Commands.ban(str(o.player) ?? "", str(o.reason)),
+  },
+  unban: { role: "admin", build: (o) => Commands.unban(str(o.player) ?? "") },
+  pm: {
+    role: "mod",
+    build: (o) => Commands.pm(str(o.player) ?? "", str(o.message) ?? ""),
+  },
+  message: {
+    role: "mod",
+    build: (o) => Commands.message(str(o.message) ?? ""),
+  },
+  hint: { role: "mod", build: (o) => Commands.hint(str(o.message) ?? "") },
+  tp: {
+    role: "mod",
+    build: (o) => Commands.tp(str(o.player) ?? "", str(o.destination) ?? ""),
+  },
+  wanted: { role: "mod", build: (o) => Commands.wanted(str(o.player) ?? "") },
+  unwanted: {
+    role: "mod",
+    build: (o) => Commands.unwanted(str(o.player) ?? ""),
+  },
+  jail: { role: "mod", build: (o) => Commands.jail(str(o.player) ?? "") },
+  unjail: { role: "mod", build: (o) => Commands.unjail(str(o.player) ?? "") },
+  heal: { role: "mod", build: (o) => Commands.heal(str(o.player) ?? "") },
+};
+
+/** The highest staff role of `robloxId`, or `undefined` for non-staff. */
+export function staffRoleOf(
+  staff: TStaffResponse,
+  robloxId: string | number,
+  ownerId?: number
+): StaffRole | undefined {
+  const id = String(robloxId);
+  if (ownerId != null && String(ownerId) === id) return "owner";
+  if (staff.CoOwners?.some((coOwner) => String(coOwner) === id)) {
+    return "coOwner";
+  }
+  if (staff.Admins && Object.hasOwn(staff.Admins, id)) return "admin";
+  if (staff.Mods && Object.hasOwn(staff.Mods, id)) return "mod";
+  return undefined;
+}
+
+/**
+ * Runs Discord slash commands as in-game commands after checking that the
+ * invoking member is in-game staff with a high enough role. Works with any
+ * Discord library: pass the command name, the member's ID and the options.
+ */
+export class DiscordCommandRouter {
+  private readonly commands: Record<string, SlashCommandDefinition>;
+  private readonly resolveRobloxId: DiscordCommandRouterOptions["resolveRobloxId"];
+  private readonly staffTtlMs: number;
+  private readonly clock: Clock;
+  private staffCache?: {
+    expiresAt: number;
+    value: Promise<{ staff: TStaffResponse; ownerId?: number }>;
+  };
+
+  constructor(
+    private server: ServerAPI,
+    private players: PlayersAPI,
+    options: DiscordCommandRouterOptions
+  ) {
+    this.commands = options.commands ?? defaultSlashCommands;
+    this.resolveRobloxId = options.resolveRobloxId;
+    this.staffTtlMs = options.staffTtlMs ?? 60_000;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /** Names of the routed commands, for registering them with Discord. */
+  names() {
+    return Object.keys(this.commands);
+  }
+
+  /** The staff role of a Discord user, if they are linked and in-game staff. */
+  async roleOf(discordUserId: string) {
+    const robloxId = await this.resolveRobloxId(discordUserId);
+    if (robloxId == null || robloxId === "") return undefined;
+    const { staff, ownerId } = await this.staff();
+    return staffRoleOf(staff, robloxId, ownerId);
+  }
+
+  /**
+   * Checks permissions, builds and sends the command. Never throws: every
+   * outcome is a `SlashCommandResult` with a message fit for an ephemeral reply.
+   */
+  async handle(
+    invocation: SlashCommandInvocation
+  ): Promise<SlashCommandResult> {
+    const definition = this.commands[invocation.commandName];
+    if (!definition) {
+      return {
+        ok: false,
+        reason: "unknown-command",
+        message: `Unknown command: ${invocation.commandName}`,
+      };
+    }
+
+    let role: StaffRole | undefined;
+    try {
+      const robloxId = await this.resolveRobloxId(invocation.userId);
+      if (robloxId == null || robloxId === "") {
+        return {
+          ok: false,
+          reason: "not-linked",
+          message: "Your Discord account is not linked to a Roblox account.",
+        };
+      }
+      const { staff, ownerId } = await this.staff();
+      role = staffRoleOf(staff, robloxId, ownerId);
+    } catch (error) {
+      return {
+        ok: false,
+        reason: "failed",
+        message: "Could not verify your staff role.",
+        error,
+      };
+    }
+
+    if (!role || ROLE_RANK[role] < ROLE_RANK[definition.role]) {
+      return {
+        ok: false,
+        reason: "forbidden",
+        message: `This command requires the ${definition.role} role in-game.`,
+      };
+    }
+
+    let command: string;
+    try {
+      command = definition.build(invocation.options ?? {});
+    } catch (error) {
+      return error instanceof CommandValidationError
+        ? { ok: false, reason: "invalid", message: error.message, error }
+        : { ok: false, reason: "failed", message: String(error), error };
+    }
+
+    try {
+      await this.server.command(command, { priority: "high" });
+      return { ok: true, command, role };
+    } catch (error) {
+      return {
+        ok: false,
+        reason: "failed",
+        message: error instanceof Error ? error.message : String(error),
+        error,
+      };
+    }
+  }
+
+  /** Drops the cached staff list, e.g. after promoting someone. */
+  invalidate() {
+    this.staffCache = undefined;
+  }
+
+  private staff() {
+    const now = this.clock.now();
+    if (!this.staffCache || this.staffCache.expiresAt <= now) {
+      const value = Promise.all([
+        this.players.staff(),
+        this.server.status(),
+      ]).then(([staff, status]) => ({ staff, ownerId: status.OwnerId }));
+      this.staffCache = { expiresAt: now + this.staffTtlMs, value };
+      // Failed lookups are not cached.
+      value.catch(() => {
+        if (this.staffCache?.value === value) this.staffCache = undefined;
+      });
+    }
+    return this.staffCache.value;
+  }
+}
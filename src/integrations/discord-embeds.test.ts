@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { JoinLogEntry, KillLogEntry, ModCallEntry } from "../types/responses";
+import { recordToEmbed, toEmbed } from "./discord-embeds";
+
+const kill = KillLogEntry.parse({
+  Killer: "john_doe:1",
+  Killed: "jane:2",
+  Timestamp: 1_700_000_000,
+});
+
+describe("toEmbed", () => {
+  it("fills placeholders with escaped entry fields", () => {
+    const embed = toEmbed("kill", kill, {
+      kill: {
+        title: "{Killer.Username} ({Killer.UserId})",
+        fields: [{ name: "Victim", value: "{Killed.Username}{Missing}" }],
+        footer: { text: "{Killed.UserId}" },
+      },
+    });
+
+    assert.deepEqual(embed, {
+      timestamp: "2023-11-14T22:13:20.000Z",
+      title: "john\\_doe (1)",
+      description: undefined,
+      fields: [{ name: "Victim", value: "jane" }],
+      footer: { text: "2" },
+    });
+  });
+
+  it("uses template functions and keeps their timestamp", () => {
+    const call = ModCallEntry.parse({
+      Caller: "jane:2",
+      Moderator: "john:1",
+      Timestamp: 1_700_000_000,
+    });
+
+    assert.equal(toEmbed("modCall", call).title, "Mod call answered");
+    assert.equal(
+      toEmbed("modCall", call, {
+        modCall: () => ({ timestamp: "2024-01-01T00:00:00.000Z" }),
+      }).timestamp,
+      "2024-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("truncates fields to Discord's limits", () => {
+    const embed = toEmbed("kill", kill, {
+      kill: () => ({ title: "x".repeat(300), description: "short" }),
+    });
+
+    assert.equal(embed.title?.length, 256);
+    assert.ok(embed.title?.endsWith("…"));
+    assert.equal(embed.description, "short");
+  });
+});
+
+describe("recordToEmbed", () => {
+  it("renders archived joins and leaves with their own templates", () => {
+    const record = (Join: boolean) =>
+      recordToEmbed({
+        type: "joins",
+        key: "1",
+        timestamp: 1_700_000_000,
+        userIds: ["1"],
+        entry: JoinLogEntry.parse({
+          Player: "john:1",
+          Join,
+          Timestamp: 1_700_000_000,
+        }),
+      });
+
+    assert.equal(record(true).title, "Player joined");
+    assert.equal(record(false).title, "Player left");
+  });
+});
@@ -0,0 +1,178 @@
+import type { ArchiveRecord } from "../services/archive-store";
+import type {
+  TCommandLogEntry,
+  TJoinLogEntry,
+  TKillLogEntry,
+  TModCallEntry,
+} from "../types/responses";
+
+/** https://discord.com/developers/docs/resources/message#embed-object */
+export type DiscordEmbed = {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  /** ISO 8601. */
+  timestamp?: string;
+  author?: { name: string; url?: string; icon_url?: string };
+  footer?: { text: string; icon_url?: string };
+  fields?: { name: string; value: string; inline?: boolean }[];
+};
+
+export type DiscordLogEntries = {
+  join: TJoinLogEntry;
+  leave: TJoinLogEntry;
+  kill: TKillLogEntry;
+  modCall: TModCallEntry;
+  command: TCommandLogEntry;
+};
+
+export type DiscordLogKind = keyof DiscordLogEntries;
+
+/**
+ * Either a function building the embed, or an embed whose string fields may
+ * reference entry fields as `{Killer.Username}`. Placeholder values are
+ * escaped for Discord markdown.
+ */
+export type EmbedTemplate<T> = ((entry: T) => DiscordEmbed) | DiscordEmbed;
+
+export type DiscordEmbedTemplates = {
+  [K in DiscordLogKind]?: EmbedTemplate<DiscordLogEntries[K]>;
+};
+
+const COLORS = {
+  green: 0x57f287,
+  grey: 0x95a5a6,
+  red: 0xed4245,
+  yellow: 0xfee75c,
+  blurple: 0x5865f2,
+};
+
+/** The templates used for any kind not overridden. */
+export const defaultEmbedTemplates: {
+  [K in DiscordLogKind]: EmbedTemplate<DiscordLogEntries[K]>;
+} = {
+  join: {
+    title: "Player joined",
+    description: "{Username} (`{UserId}`)",
+    color: COLORS.green,
+  },
+  leave: {
+    title: "Player left",
+    description: "{Username} (`{UserId}`)",
+    color: COLORS.grey,
+  },
+  kill: {
+    title: "Kill",
+    description: "{Killer.Username} killed {Killed.Username}",
+    color: COLORS.red,
+  },
+  modCall: (entry) => ({
+    title: entry.Moderator ? "Mod call answered" : "Mod call",
+    description: entry.Moderator
+      ? `${escapeMarkdown(entry.Moderator.Username)} answered ${escapeMarkdown(entry.Caller.Username)}`
+      : `${escapeMarkdown(entry.Caller.Username)} needs a moderator`,
+    color: entry.Moderator ? COLORS.green : COLORS.yellow,
+  }),
+  command: {
+    title: "Command",
+    description: "{Username}: {Command}",
+    color: COLORS.blurple,
+  },
+};
+
+/* https://discord.com/developers/docs/resources/message#embed-object-embed-limits */
+const LIMITS = { title: 256, description: 4096, name: 256, value: 1024 };
+
+/**
+ * Renders a log entry as an embed. The entry's `Timestamp` becomes the
+ * embed timestamp unless the template sets one.
+ */
+export function toEmbed<K extends DiscordLogKind>(
+  kind: K,
+  entry: DiscordLogEntries[K],
+  templates: DiscordEmbedTemplates = {}
+): DiscordEmbed {
+  const template = (templates[kind] ??
+    defaultEmbedTemplates[kind]) as EmbedTemplate<DiscordLogEntries[K]>;
+  const embed =
+    typeof template === "function" ? template(entry) : fill(template, entry);
+  return clamp({
+    timestamp: new Date(entry.Timestamp * 1000).toISOString(),
+    ...embed,
+  });
+}
+
+/** Renders an archived log record (see `LogArchiver`). */
+export function recordToEmbed(
+  record: ArchiveRecord,
+  templates?: DiscordEmbedTemplates
+) {
+  switch (record.type) {
+    case "joins":
+      return toEmbed(
+        record.entry.Join ? "join" : "leave",
+        record.entry,
+        templates
+      );
+    case "kills":
+      return toEmbed("kill", record.entry, templates);
+    case "modCalls":
+      return toEmbed("modCall", record.entry, templates);
+    case "commands":
+      return toEmbed("command", record.entry, templates);
+  }
+}
+
+/** Escapes Discord markdown, so names like `john_doe_1` render literally. */
+export function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_~|>#\-[\]()])/g, "\\$1");
+}
+
+function fill(template: DiscordEmbed, entry: object): DiscordEmbed {
+  const render = (text: string) =>
+    text.replace(/\{([\w.]+)\}/g, (match, path: string) => {
+      const value = lookup(entry, path);
+      return value == null ? "" : escapeMarkdown(String(value));
+    });
+  return {
+    ...template,
+    title: template.title && render(template.title),
+    description: template.description && render(template.description),
+    fields: template.fields?.map((field) => ({
+      ...field,
+      name: render(field.name),
+      value: render(field.value),
+    })),
+    footer: template.footer && {
+      ...template.footer,
+      text: render(template.footer.text),
+    },
+  };
+}
+
+function lookup(value: unknown, path: string) {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current == null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function truncate(text: string | undefined, max: number) {
+  return text && text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function clamp(embed: DiscordEmbed): DiscordEmbed {
+  return {
+    ...embed,
+    title: truncate(embed.title, LIMITS.title),
+    description: truncate(embed.description, LIMITS.description),
+    fields: embed.fields?.slice(0, 25).map((field) => ({
+      ...field,
+      name: truncate(field.name, LIMITS.name) ?? "",
+      value: truncate(field.value, LIMITS.value) ?? "",
+    })),
+  };
+}
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { describe, it } from "node:test";
+import type { EventStream } from "../services/events";
+import { settle } from "../testing";
+import { JoinLogEntry } from "../types/responses";
+import { VirtualClock } from "../utils/clock";
+import { DiscordWebhook, DiscordWebhookError } from "./discord-webhook";
+
+/* A webhook endpoint answering with `responses` in order, then `204`. */
+function setup(responses: (() => Response)[] = []) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const posts: { at: number; body: Record<string, unknown> }[] = [];
+  const webhook = new DiscordWebhook({
+    url: "https://discord.com/api/webhooks/1/token",
+    username: "liberlc",
+    clock,
+    fetch: async (_, init) => {
+      posts.push({ at: clock.now(), body: JSON.parse(String(init?.body)) });
+      return responses.shift()?.() ?? new Response(null, { status: 204 });
+    },
+  });
+  return { clock, posts, webhook };
+}
+
+const start = 1_700_000_000_000;
+
+describe("DiscordWebhook", () => {
+  it("disables mentions and splits embeds into messages of ten", async () => {
+    const { clock, posts, webhook } = setup();
+    const embeds = Array.from({ length: 12 }, (_, i) => ({ title: `${i}` }));
+
+    await settle(clock, webhook.sendEmbeds(embeds));
+
+    assert.deepEqual(
+      posts.map((post) => (post.body.embeds as unknown[]).length),
+      [10, 2]
+    );
+    assert.equal(posts[0].body.username, "liberlc");
+    assert.deepEqual(posts[0].body.allowed_mentions, { parse: [] });
+  });
+
+  it("waits out 429s and exhausted buckets before sending again", async () => {
+    const { clock, posts, webhook } = setup([
+      () => Response.json({ retry_after: 2 }, { status: 429 }),
+      () =>
+        new Response(null, {
+          status: 204,
+          headers: {
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset-after": "5",
+          },
+        }),
+    ]);
+
+    await settle(
+      clock,
+      Promise.all([
+        webhook.send({ content: "a" }),
+        webhook.send({ content: "b" }),
+      ])
+    );
+
+    assert.deepEqual(
+      posts.map((post) => [post.body.content, post.at - start]),
+      [
+        ["a", 0],
+        ["a", 2000],
+        ["b", 7000],
+      ]
+    );
+  });
+
+  it("rejects failed messages without blocking later ones", async () => {
+    const { clock, posts, webhook } = setup([
+      () => new Response(null, { status: 400 }),
+    ]);
+
+    const failed = webhook.send({ content: "a" }).catch((error) => error);
+    await settle(clock, webhook.send({ content: "b" }));
+
+    const error = await failed;
+    assert.ok(error instanceof DiscordWebhookError, `got ${error}`);
+    assert.equal(error.status, 400);
+    assert.equal(posts.length, 2);
+  });
+
+  it("forwards the selected kinds from an event stream until stopped", async () => {
+    const { clock, posts, webhook } = setup();
+    const stream = new EventEmitter() as unknown as EventStream;
+    const join = JoinLogEntry.parse({
+      Player: "john_doe:1",
+      Join: true,
+      Timestamp: 1_700_000_000,
+    });
+
+    const stop = webhook.forward(stream, { kinds: ["join"] });
+    stream.emit("playerJoin", join);
+    stream.emit("playerLeave", { ...join, Join: false });
+    stop();
+    stream.emit("playerJoin", join);
+    await settle(clock, webhook.send({ content: "done" }));
+
+    assert.deepEqual(
+      posts.map((post) => post.body.embeds ?? post.body.content),
+      [
+        [
+          {
+            title: "Player joined",
+            description: "john\\_doe (`1`)",
+            color: 0x57f287,
+            timestamp: "2023-11-14T22:13:20.000Z",
+          },
+        ],
+        "done",
+      ]
+    );
+  });
+});
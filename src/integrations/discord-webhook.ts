@@ -0,0 +1,179 @@
+import { type Clock, systemClock } from "../utils/clock";
+import { sleep } from "../utils/headers";
+import type { EventStream } from "../services/events";
+import {
+  type DiscordEmbed,
+  type DiscordEmbedTemplates,
+  type DiscordLogEntries,
+  type DiscordLogKind,
+  toEmbed,
+} from "./discord-embeds";
+
+/** https://discord.com/developers/docs/resources/webhook#execute-webhook */
+export type DiscordWebhookPayload = {
+  content?: string;
+  username?: string;
+  avatar_url?: string;
+  embeds?: DiscordEmbed[];
+  allowed_mentions?: { parse?: ("roles" | "users" | "everyone")[] };
+};
+
+export type DiscordWebhookOptions = {
+  /** `https://discord.com/api/webhooks/<id>/<token>` */
+  url: string;
+  /** Display name override for every message. */
+  username?: string;
+  avatarUrl?: string;
+  /** How many times a message is re-sent after a 429 or 5xx. Defaults to 3. */
+  retries?: number;
+  fetch?: typeof fetch;
+  clock?: Clock;
+};
+
+export type ForwardEventsOptions = {
+  templates?: DiscordEmbedTemplates;
+  /** Kinds to forward. Defaults to all of them. */
+  kinds?: DiscordLogKind[];
+  /** Called when a message could not be delivered. Errors are dropped otherwise. */
+  onError?: (error: unknown) => void;
+};
+
+export class DiscordWebhookError extends Error {
+  public readonly status: number;
+  public readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(`Discord webhook request failed with status ${status}`);
+    this.name = "DiscordWebhookError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/* Discord accepts at most 10 embeds per message. */
+const MAX_EMBEDS = 10;
+
+/**
+ * Posts messages to a Discord webhook one at a time. It tracks Discord's own
+ * `X-RateLimit-*` headers and `429` responses, independently of the PRC rate
+ * limiter, so a busy channel never delays API requests.
+ */
+export class DiscordWebhook {
+  private readonly url: string;
+  private readonly username?: string;
+  private readonly avatarUrl?: string;
+  private readonly retries: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly clock: Clock;
+  private queue: Promise<unknown> = Promise.resolve();
+  private blockedUntil = 0;
+
+  constructor(options: DiscordWebhookOptions) {
+    this.url = options.url;
+    this.username = options.username;
+    this.avatarUrl = options.avatarUrl;
+    this.retries = options.retries ?? 3;
+    this.fetchImpl = options.fetch ?? globalThis.fetch;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Queues a message. Mentions are disabled unless the payload sets
+   * `allowed_mentions`, so player names can never ping anyone.
+   */
+  send(payload: DiscordWebhookPayload): Promise<void> {
+    const body = {
+      username: this.username,
+      avatar_url: this.avatarUrl,
+      allowed_mentions: { parse: [] },
+      ...payload,
+    };
+    const result = this.queue
+      .catch(() => undefined)
+      .then(() => this.post(body));
+    this.queue = result;
+    return result;
+  }
+
+  /** Sends embeds in as few messages as Discord allows. */
+  async sendEmbeds(embeds: DiscordEmbed[]) {
+    for (let i = 0; i < embeds.length; i += MAX_EMBEDS) {
+      await this.send({ embeds: embeds.slice(i, i + MAX_EMBEDS) });
+    }
+  }
+
+  /**
+   * Forwards joins, leaves, kills, mod calls and commands from an
+   * `EventStream` as embeds. Returns a function that stops forwarding.
+   */
+  forward(stream: EventStream, options: ForwardEventsOptions = {}) {
+    const kinds = new Set<DiscordLogKind>(
+      options.kinds ?? ["join", "leave", "kill", "modCall", "command"]
+    );
+    const deliver =
+      <K extends DiscordLogKind>(kind: K) =>
+      (entry: DiscordLogEntries[K]) => {
+        if (!kinds.has(kind)) return;
+        this.send({ embeds: [toEmbed(kind, entry, options.templates)] }).catch(
+          (error) => options.onError?.(error)
+        );
+      };
+
+    const onJoin = deliver("join");
+    const onLeave = deliver("leave");
+    const onKill = deliver("kill");
+    const onModCall = deliver("modCall");
+    const onCommand = deliver("command");
+    stream.on("playerJoin", onJoin);
+    stream.on("playerLeave", onLeave);
+    stream.on("kill", onKill);
+    stream.on("modCall", onModCall);
+    stream.on("command", onCommand);
+    return () => {
+      stream.off("playerJoin", onJoin);
+      stream.off("playerLeave", onLeave);
+      stream.off("kill", onKill);
+      stream.off("modCall", onModCall);
+      stream.off("command", onCommand);
+    };
+  }
+
+  private async post(body: DiscordWebhookPayload) {
+    for (let attempt = 0; ; attempt++) {
+      const wait = this.blockedUntil - this.clock.now();
+      if (wait > 0) await sleep(wait, this.clock);
+
+      const response = await this.fetchImpl(this.url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const remaining = Number(response.headers.get("x-ratelimit-remaining"));
+      const resetAfter = Number(
+        response.headers.get("x-ratelimit-reset-after")
+      );
+      if (response.headers.has("x-ratelimit-remaining") && remaining === 0) {
+        this.blockedUntil = this.clock.now() + resetAfter * 1000;
+      }
+
+      if (response.ok) {
+        return;
+      }
+
+      const payload = await response.json().catch(() => undefined as unknown);
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= this.retries) {
+        throw new DiscordWebhookError(response.status, payload);
+      }
+      if (response.status === 429) {
+        const retryAfter =
+          (payload as { retry_after?: number } | undefined)?.retry_after ??
+          (Number(response.headers.get("retry-after")) || 1);
+        this.blockedUntil = this.clock.now() + retryAfter * 1000;
+      } else {
+        await sleep(1000 * 2 ** attempt, this.clock);
+      }
+    }
+  }
+}
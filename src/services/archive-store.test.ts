@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer, settle } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import { SqliteArchiveStore, type SqliteDatabase } from "./archive-store";
+import { LogArchiver } from "./archiver";
+
+type Row = Record<string, unknown> & { rowid: number };
+
+/*
+  Stand-in for a better-sqlite3 `Database` that understands exactly the
+  statements `SqliteArchiveStore` issues: `INSERT OR IGNORE` keyed on the
+  primary key, and `SELECT`s filtered by `IN`, `>=`, `<` and sub-selects.
+*/
+class FakeSqlite implements SqliteDatabase {
+  readonly tables = new Map<string, Row[]>();
+  private rowid = 0;
+  private snapshot?: Map<string, Row[]>;
+
+  exec(sql: string) {
+    for (const [, name] of sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/g)) {
+      if (!this.tables.has(name)) this.tables.set(name, []);
+    }
+    const command = sql.trim();
+    if (command === "BEGIN") {
+      this.snapshot = new Map(
+        [...this.tables].map(([name, rows]) => [name, [...rows]])
+      );
+    } else if (command === "ROLLBACK" && this.snapshot) {
+      this.tables.clear();
+      for (const [name, rows] of this.snapshot) this.tables.set(name, rows);
+    }
+  }
+
+  prepare(sql: string) {
+    return {
+      run: (...params: unknown[]) => this.insert(sql, params),
+      all: (...params: unknown[]) => this.select(sql, params),
+    };
+  }
+
+  private insert(sql: string, params: unknown[]) {
+    const [, table, columns] =
+      /INSERT OR IGNORE INTO (\w+) \(([^)]+)\)/.exec(sql) ?? [];
+    const rows = this.tables.get(table) as Row[];
+    const row: Row = { rowid: ++this.rowid };
+    columns.split(", ").forEach((column, i) => (row[column] = params[i]));
+    // `prc_logs` is keyed on `key`, the link table on `(user_id, key)`.
+    const primary = table.endsWith("_players") ? ["user_id", "key"] : ["key"];
+    if (rows.some((other) => primary.every((c) => other[c] === row[c]))) {
+      return { changes: 0 };
+    }
+    rows.push(row);
+    return { changes: 1 };
+  }
+
+  private select(sql: string, params: unknown[]) {
+    const [, table, where = "", column, direction, limit] =
+      /FROM (\w+)(?: WHERE (.+?))? ORDER BY (\w+) (ASC|DESC), rowid \4( LIMIT \?)?$/.exec(
+        sql
+      ) ?? [];
+    const queue = [...params];
+    const filters = where
+      .split(" AND ")
+      .filter(Boolean)
+      .map((condition): ((row: Row) => boolean) => {
+        const inList = /^type IN \(([?, ]+)\)$/.exec(condition);
+        if (inList) {
+          const values = queue.splice(0, inList[1].split(",").length);
+          return (row) => values.includes(row.type);
+        }
+        const link =
+          /^key IN \(SELECT key FROM (\w+) WHERE user_id = \?\)$/.exec(
+            condition
+          );
+        if (link) {
+          const userId = queue.shift();
+          const keys = (this.tables.get(link[1]) as Row[])
+            .filter((row) => row.user_id === userId)
+            .map((row) => row.key);
+          return (row) => keys.includes(row.key);
+        }
+        const compare = /^timestamp (>=|<) \?$/.exec(condition);
+        if (compare) {
+          const value = queue.shift() as number;
+          return compare[1] === ">="
+            ? (row) => (row.timestamp as number) >= value
+            : (row) => (row.timestamp as number) < value;
+        }
+        throw new Error(`Unsupported condition: ${condition}`);
+      });
+
+    const sign = direction === "DESC" ? -1 : 1;
+    const rows = (this.tables.get(table) as Row[])
+      .filter((row) => filters.every((filter) => filter(row)))
+      .sort(
+        (a, b) =>
+          sign * ((a[column] as number) - (b[column] as number)) ||
+          sign * (a.rowid - b.rowid)
+      );
+    return limit ? rows.slice(0, queue.shift() as number) : rows;
+  }
+}
+
+function setup() {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const mock = createMockServer({ serverKey: "key", now: () => clock.now() });
+  const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+  const database = new FakeSqlite();
+  const store = new SqliteArchiveStore({ database });
+  const archiver = new LogArchiver(api.logs, store, {
+    sources: ["joins", "kills"],
+    clock,
+  });
+  return { clock, mock, database, archiver };
+}
+
+describe("SqliteArchiveStore", () => {
+  it("archives identical entries from the same second separately", async () => {
+    const { clock, mock, archiver } = setup();
+    mock.join({ name: "john", userId: 1 });
+    mock.join({ name: "jane", userId: 2 });
+    mock.kill(1, 2).kill(1, 2);
+
+    assert.deepEqual(await settle(clock, archiver.archive()), {
+      joins: 2,
+      kills: 2,
+    });
+    assert.deepEqual(await settle(clock, archiver.archive()), {
+      joins: 0,
+      kills: 0,
+    });
+
+    const kills = await archiver.ofType("kills");
+    assert.equal(kills.length, 2);
+    assert.notEqual(kills[0].key, kills[1].key);
+  });
+
+  it("answers queries by player, type, time range and order", async () => {
+    const { clock, mock, archiver } = setup();
+    mock.join({ name: "john", userId: 1 });
+    await clock.advance(5_000);
+    mock.join({ name: "jane", userId: 2 });
+    await clock.advance(5_000);
+    mock.kill(2, 1);
+    await settle(clock, archiver.archive());
+    const start = Math.floor(1_700_000_000_000 / 1000);
+
+    const jane = await archiver.byPlayer(2);
+    assert.deepEqual(
+      jane.map((record) => record.type),
+      ["joins", "kills"]
+    );
+    assert.deepEqual(
+      (await archiver.between(start, start + 10)).map((r) => r.timestamp),
+      [start, start + 5]
+    );
+    const latest = await archiver.query({ order: "desc", limit: 1 });
+    assert.equal(latest[0].type, "kills");
+    assert.equal((await archiver.ofType("joins", { userId: 1 })).length, 1);
+  });
+});
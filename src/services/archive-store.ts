@@ -0,0 +1,302 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  TCommandLogEntry,
+  TJoinLogEntry,
+  TKillLogEntry,
+  TModCallEntry,
+} from "../types/responses";
+import type { LogSource } from "./events";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type LogEntries = {
+  joins: TJoinLogEntry;
+  kills: TKillLogEntry;
+  commands: TCommandLogEntry;
+  modCalls: TModCallEntry;
+};
+
+/** A stored log entry. `type` narrows `entry`. */
+export type ArchiveRecord<S extends LogSource = LogSource> = {
+  [K in S]: {
+    type: K;
+    /** Stable identity of the entry, used for de-duplication. */
+    key: string;
+    /** Unix seconds, copied from the entry. */
+    timestamp: number;
+    /** Every player the entry mentions. */
+    userIds: string[];
+    entry: LogEntries[K];
+  };
+}[S];
+
+export type ArchiveQuery = {
+  types?: LogSource[];
+  userId?: string | number;
+  /** Unix seconds, inclusive. */
+  from?: number;
+  /** Unix seconds, exclusive. */
+  to?: number;
+  /** Defaults to `asc` (oldest first). */
+  order?: "asc" | "desc";
+  limit?: number;
+};
+
+/** Backing storage for `LogArchiver`. */
+export interface ArchiveStore {
+  /** Stores the records whose key is not stored yet; resolves to how many were added. */
+  append(records: ArchiveRecord[]): MaybePromise<number>;
+  query(query?: ArchiveQuery): MaybePromise<ArchiveRecord[]>;
+}
+
+/** Archive kept in memory; useful for tests and short-lived processes. */
+export class MemoryArchiveStore implements ArchiveStore {
+  private readonly records = new Map<string, ArchiveRecord>();
+
+  append(records: ArchiveRecord[]) {
+    let added = 0;
+    for (const record of records) {
+      if (this.records.has(record.key)) continue;
+      this.records.set(record.key, record);
+      added++;
+    }
+    return added;
+  }
+
+  query(query: ArchiveQuery = {}) {
+    return applyQuery([...this.records.values()], query);
+  }
+}
+
+export type JsonlArchiveStoreOptions = {
+  /** Path of the `.jsonl` file. Created on first write. */
+  path: string;
+};
+
+/**
+ * Append-only archive with one JSON record per line. The file is read once
+ * to learn the stored keys; queries scan it, which is fine for the few
+ * thousand entries a server produces per day. Use `SqliteArchiveStore` for
+ * long-lived archives.
+ */
+export class JsonlArchiveStore implements ArchiveStore {
+  private readonly path: string;
+  private keys?: Promise<Set<string>>;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(options: JsonlArchiveStoreOptions) {
+    this.path = options.path;
+  }
+
+  append(records: ArchiveRecord[]) {
+    // Serialise appends so concurrent passes never write a key twice.
+    const result = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const keys = await this.storedKeys();
+        const fresh = records.filter((record) => {
+          if (keys.has(record.key)) return false;
+          keys.add(record.key);
+          return true;
+        });
+        if (fresh.length > 0) {
+          await mkdir(dirname(this.path), { recursive: true });
+          await appendFile(
+            this.path,
+            fresh.map((record) => JSON.stringify(record) + "\n").join("")
+          );
+        }
+        return fresh.length;
+      });
+    this.writing = result;
+    return result;
+  }
+
+  async query(query: ArchiveQuery = {}) {
+    await this.writing.catch(() => undefined);
+    return applyQuery(await this.read(), query);
+  }
+
+  private storedKeys() {
+    this.keys ??= this.read().then(
+      (records) => new Set(records.map((record) => record.key))
+    );
+    return this.keys;
+  }
+
+  private async read(): Promise<ArchiveRecord[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    const records: ArchiveRecord[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A torn last line (e.g. after a crash mid-append) is skipped.
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * The subset of the `better-sqlite3` / `node:sqlite` (`DatabaseSync`) API the
+ * SQLite store needs, so either can be passed in without a dependency here.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): { changes: number | bigint };
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+export type SqliteArchiveStoreOptions = {
+  database: SqliteDatabase;
+  /** Defaults to `prc_logs`. */
+  table?: string;
+};
+
+type SqliteRow = {
+  type: LogSource;
+  key: string;
+  timestamp: number;
+  entry: string;
+  user_ids: string;
+};
+
+/**
+ * Archive stored in a SQLite table indexed by type, time and player:
+ *
+ * ```ts
+ * import Database from "better-sqlite3";
+ * new SqliteArchiveStore({ database: new Database("prc-logs.db") });
+ * ```
+ */
+export class SqliteArchiveStore implements ArchiveStore {
+  private readonly db: SqliteDatabase;
+  private readonly table: string;
+
+  constructor(options: SqliteArchiveStoreOptions) {
+    this.db = options.database;
+    this.table = options.table ?? "prc_logs";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new TypeError(`Invalid table name: ${this.table}`);
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        key TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        user_ids TEXT NOT NULL,
+        entry TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_type_time ON ${this.table} (type, timestamp);
+      CREATE TABLE IF NOT EXISTS ${this.table}_players (
+        key TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        PRIMARY KEY (user_id, key)
+      );
+    `);
+  }
+
+  append(records: ArchiveRecord[]) {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO ${this.table} (key, type, timestamp, user_ids, entry) VALUES (?, ?, ?, ?, ?)`
+    );
+    const link = this.db.prepare(
+      `INSERT OR IGNORE INTO ${this.table}_players (key, user_id) VALUES (?, ?)`
+    );
+
+    let added = 0;
+    this.db.exec("BEGIN");
+    try {
+      for (const record of records) {
+        const { changes } = insert.run(
+          record.key,
+          record.type,
+          record.timestamp,
+          JSON.stringify(record.userIds),
+          JSON.stringify(record.entry)
+        );
+        if (Number(changes) === 0) continue;
+        added++;
+        for (const userId of record.userIds) link.run(record.key, userId);
+      }
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+    return added;
+  }
+
+  query(query: ArchiveQuery = {}) {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (query.types?.length) {
+      where.push(`type IN (${query.types.map(() => "?").join(", ")})`);
+      params.push(...query.types);
+    }
+    if (query.userId != null) {
+      where.push(
+        `key IN (SELECT key FROM ${this.table}_players WHERE user_id = ?)`
+      );
+      params.push(String(query.userId));
+    }
+    if (query.from != null) {
+      where.push("timestamp >= ?");
+      params.push(query.from);
+    }
+    if (query.to != null) {
+      where.push("timestamp < ?");
+      params.push(query.to);
+    }
+
+    const order = query.order === "desc" ? "DESC" : "ASC";
+    let sql = `SELECT key, type, timestamp, user_ids, entry FROM ${this.table}`;
+    if (where.length) sql += ` WHERE ${where.join(" AND ")}`;
+    sql += ` ORDER BY timestamp ${order}, rowid ${order}`;
+    if (query.limit != null) {
+      sql += " LIMIT ?";
+      params.push(query.limit);
+    }
+
+    return (this.db.prepare(sql).all(...params) as SqliteRow[]).map(
+      (row) =>
+        ({
+          type: row.type,
+          key: row.key,
+          timestamp: Number(row.timestamp),
+          userIds: JSON.parse(row.user_ids),
+          entry: JSON.parse(row.entry),
+        }) as ArchiveRecord
+    );
+  }
+}
+
+/* In-memory filtering shared by stores without their own query engine. */
+function applyQuery(records: ArchiveRecord[], query: ArchiveQuery) {
+  const userId = query.userId != null ? String(query.userId) : undefined;
+  const types = query.types?.length ? new Set(query.types) : undefined;
+  const matches = records.filter(
+    (record) =>
+      (!types || types.has(record.type)) &&
+      (userId === undefined || record.userIds.includes(userId)) &&
+      (query.from == null || record.timestamp >= query.from) &&
+      (query.to == null || record.timestamp < query.to)
+  );
+  // Stable sort keeps insertion order for entries in the same second.
+  matches.sort((a, b) => a.timestamp - b.timestamp);
+  if (query.order === "desc") matches.reverse();
+  return query.limit != null ? matches.slice(0, query.limit) : matches;
+}
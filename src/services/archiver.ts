@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { LogsAPI } from "../endpoints/logs";
+import { type Clock, type ClockTimer, systemClock } from "../utils/clock";
+import type {
+  ArchiveQuery,
+  ArchiveRecord,
+  ArchiveStore,
+  LogEntries,
+} from "./archive-store";
+import type { LogSource } from "./events";
+
+export type LogArchiverOptions = {
+  /** Time between archive passes in ms. Defaults to 60s. */
+  intervalMs?: number;
+  /** Logs to archive. Defaults to all four. */
+  sources?: LogSource[];
+  clock?: Clock;
+};
+
+export type LogArchiverEvents = {
+  /** After each source is stored; `added` excludes entries already archived. */
+  archived: [source: LogSource, added: number];
+  error: [error: unknown, source: LogSource];
+};
+
+const ALL_SOURCES: LogSource[] = ["joins", "kills", "commands", "modCalls"];
+
+/* Archiving is background work and should yield to requests made for users. */
+const POLL = { priority: "low" } as const;
+
+/**
+ * Copies the rolling PRC logs into an `ArchiveStore` so they outlive the API's
+ * retention window. Each pass fetches every configured log and stores entries
+ * the store has not seen yet, so overlapping windows are never duplicated.
+ */
+export class LogArchiver extends EventEmitter<LogArchiverEvents> {
+  private readonly intervalMs: number;
+  private readonly sources: LogSource[];
+  private readonly clock: Clock;
+  private timer?: ClockTimer;
+  private generation = 0;
+  private active = false;
+
+  constructor(
+    private logsApi: LogsAPI,
+    readonly store: ArchiveStore,
+    options: LogArchiverOptions = {}
+  ) {
+    super();
+    this.intervalMs = options.intervalMs ?? 60_000;
+    this.sources = options.sources ?? ALL_SOURCES;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get running() {
+    return this.active;
+  }
+
+  /** Runs a pass now and then every `intervalMs` until `stop()`. */
+  start() {
+    if (this.active) {
+      return this;
+    }
+    this.active = true;
+    this.loop(++this.generation, 0);
+    return this;
+  }
+
+  stop() {
+    this.active = false;
+    this.generation++;
+    this.clock.clearTimeout(this.timer);
+    this.timer = undefined;
+    return this;
+  }
+
+  /**
+   * Archives the configured logs once. A failing source is reported through
+   * the `error` event (or rethrown when nobody listens) after the other
+   * sources were archived.
+   */
+  async archive(): Promise<Partial<Record<LogSource, number>>> {
+    const added: Partial<Record<LogSource, number>> = {};
+    let failure: unknown;
+    for (const source of this.sources) {
+      try {
+        added[source] = await this.archiveSource(source);
+        this.emit("archived", source, added[source]);
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error, source);
+        } else {
+          failure ??= error;
+        }
+      }
+    }
+    if (failure) throw failure;
+    return added;
+  }
+
+  query(query: ArchiveQuery = {}) {
+    return this.store.query(query);
+  }
+
+  /** Entries that mention `userId` as actor or target. */
+  byPlayer(userId: string | number, query: Omit<ArchiveQuery, "userId"> = {}) {
+    return this.store.query({ ...query, userId });
+  }
+
+  /** Entries between `from` (inclusive) and `to` (exclusive), in Unix seconds. */
+  between(from: number, to: number, query: ArchiveQuery = {}) {
+    return this.store.query({ ...query, from, to });
+  }
+
+  async ofType<S extends LogSource>(
+    type: S,
+    query: Omit<ArchiveQuery, "types"> = {}
+  ) {
+    return (await this.store.query({
+      ...query,
+      types: [type],
+    })) as ArchiveRecord<S>[];
+  }
+
+  private async archiveSource(source: LogSource) {
+    const records = await this.fetch(source);
+    return records.length ? this.store.append(records) : 0;
+  }
+
+  private async fetch(source: LogSource): Promise<ArchiveRecord[]> {
+    const seen = new Map<string, number>();
+    switch (source) {
+      case "joins":
+        return (await this.logsApi.joins(POLL)).map((entry) =>
+          toRecord("joins", entry, [entry.UserId], seen)
+        );
+      case "kills":
+        return (await this.logsApi.kills(POLL)).map((entry) =>
+          toRecord(
+            "kills",
+            entry,
+            [entry.Killer.UserId, entry.Killed.UserId],
+            seen
+          )
+        );
+      case "commands":
+        return (await this.logsApi.commands(POLL)).map((entry) =>
+          toRecord("commands", entry, [entry.UserId], seen)
+        );
+      case "modCalls":
+        return (await this.logsApi.modCalls(POLL)).map((entry) =>
+          toRecord(
+            "modCalls",
+            entry,
+            entry.Moderator
+              ? [entry.Caller.UserId, entry.Moderator.UserId]
+              : [entry.Caller.UserId],
+            seen
+          )
+        );
+    }
+  }
+
+  private loop(generation: number, delay: number) {
+    this.timer = this.clock.setTimeout(async () => {
+      try {
+        await this.archive();
+      } catch {
+        // Only reached without an `error` listener; keep archiving regardless.
+      }
+      if (this.active && generation === this.generation) {
+        this.loop(generation, this.intervalMs);
+      }
+    }, delay);
+  }
+}
+
+/*
+  Identical entries in the same second (two kills of the same player, say) are
+  distinct events, so the key counts occurrences within one fetch, like the
+  command queue's `claimed` map. The first keeps the plain content hash.
+*/
+function toRecord<S extends LogSource>(
+  type: S,
+  entry: LogEntries[S],
+  userIds: (string | undefined)[],
+  seen: Map<string, number>
+) {
+  const content = `${type}:${JSON.stringify(entry)}`;
+  const occurrence = (seen.get(content) ?? 0) + 1;
+  seen.set(content, occurrence);
+  const key = createHash("sha256")
+    .update(occurrence === 1 ? content : `${content}#${occurrence}`)
+    .digest("hex")
+    .slice(0, 24);
+  return {
+    type,
+    key,
+    timestamp: entry.Timestamp,
+    userIds: [...new Set(userIds.filter((id): id is string => Boolean(id)))],
+    entry,
+  } as ArchiveRecord<S>;
+}
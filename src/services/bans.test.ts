@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { SchemaValidationError } from "../core/errors";
+import type { PlayersAPI } from "../endpoints/players";
+import type { ServerAPI } from "../endpoints/server";
+import { VirtualClock } from "../utils/clock";
+import {
+  BanManager,
+  type BanRecord,
+  FileBanStore,
+  MemoryBanStore,
+} from "./bans";
+
+/* A server whose commands complete only when `finish()` is called. */
+function pendingServer() {
+  const pending: (() => void)[] = [];
+  const commands: string[] = [];
+  const server = {
+    command: (command: string) => {
+      commands.push(command);
+      return new Promise<void>((resolve) => pending.push(resolve));
+    },
+  } as unknown as ServerAPI;
+  return {
+    server,
+    commands,
+    finish: () => pending.splice(0).forEach((done) => done()),
+  };
+}
+
+const record: BanRecord = {
+  UserId: "1",
+  Username: "john",
+  bannedAt: 1_700_000_000,
+  expiresAt: 1_700_000_060,
+  source: "manager",
+};
+
+/* Lets a command get as far as being sent. */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("BanManager", () => {
+  for (const method of ["ban", "import"] as const) {
+    it(`does not report its own ${method} as a game ban`, async () => {
+      const { server, finish } = pendingServer();
+      const manager = new BanManager(server, {} as PlayersAPI, {
+        clock: new VirtualClock(1_700_000_000_000),
+      });
+      const banned: BanRecord["source"][] = [];
+      manager.on("ban", (record) => banned.push(record.source));
+
+      const issued =
+        method === "ban"
+          ? manager.ban({ Username: "john", UserId: 1 })
+          : manager.import([{ ...record, expiresAt: undefined }]);
+      await flush();
+      // The game already lists the ban while the command is still in flight.
+      const result = await manager.reconcile({ "1": "john" });
+      finish();
+      await issued;
+
+      assert.deepEqual(result.added, []);
+      assert.deepEqual(banned, [method === "ban" ? "manager" : "import"]);
+    });
+  }
+
+  it("does not report its own unban as lifted in-game", async () => {
+    const { server, finish } = pendingServer();
+    const store = new MemoryBanStore();
+    store.save([record]);
+    const manager = new BanManager(server, {} as PlayersAPI, {
+      store,
+      clock: new VirtualClock(1_700_000_000_000),
+    });
+    const reasons: string[] = [];
+    manager.on("unban", (_, reason) => reasons.push(reason));
+
+    const issued = manager.unban(1);
+    await flush();
+    // The game already dropped the ban while the command is still in flight.
+    const result = await manager.reconcile({});
+    finish();
+    await issued;
+
+    assert.deepEqual(result.removed, []);
+    assert.deepEqual(reasons, ["manual"]);
+  });
+
+  it("lifts expired bans by user ID", async () => {
+    const { server, commands, finish } = pendingServer();
+    const clock = new VirtualClock(1_700_000_000_000);
+    const store = new MemoryBanStore();
+    store.save([record]);
+    const manager = new BanManager(server, {} as PlayersAPI, { store, clock });
+
+    await clock.advance(60_000);
+    const lifted = manager.expire();
+    await flush();
+    finish();
+
+    assert.deepEqual(await lifted, [record]);
+    assert.deepEqual(commands, [":unban 1"]);
+  });
+});
+
+describe("FileBanStore", () => {
+  const dir = mkdtemp(join(tmpdir(), "liberlc-bans-"));
+  after(async () => rm(await dir, { recursive: true, force: true }));
+
+  it("loads what it saved", async () => {
+    const store = new FileBanStore({ path: join(await dir, "saved.json") });
+    const records: BanRecord[] = [
+      {
+        UserId: "1",
+        Username: "john",
+        reason: "RDM",
+        bannedAt: 1_700_000_000,
+        expiresAt: 1_700_003_600,
+        source: "manager",
+      },
+    ];
+
+    await store.save(records);
+
+    assert.deepEqual(await store.load(), records);
+  });
+
+  it("rejects a file that is not a ban list", async () => {
+    const path = join(await dir, "invalid.json");
+    await writeFile(path, JSON.stringify([{ UserId: 1, Username: "john" }]));
+
+    const error = await new FileBanStore({ path }).load().catch((e) => e);
+
+    assert.ok(error instanceof SchemaValidationError, `got ${error}`);
+    assert.ok(error.issues.length > 0);
+  });
+});
@@ -0,0 +1,478 @@
+import { EventEmitter } from "node:events";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+import { SchemaValidationError } from "../core/errors";
+import { PlayersAPI } from "../endpoints/players";
+import { ServerAPI } from "../endpoints/server";
+import type { TBanEntry } from "../types/responses";
+import { type Clock, type ClockTimer, systemClock } from "../utils/clock";
+import { Commands } from "../utils/commands";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type BanRecord = {
+  UserId: string;
+  Username: string;
+  reason?: string;
+  /** Who issued the ban; free-form (a username, a Discord tag, a rule name). */
+  moderator?: string;
+  /** Unix seconds. */
+  bannedAt: number;
+  /** Unix seconds. Permanent when missing. */
+  expiresAt?: number;
+  /** `game` for bans first seen in `bans()` rather than issued through the manager. */
+  source: "manager" | "game" | "import";
+};
+
+/* What `FileBanStore` accepts from disk; unknown fields are dropped. */
+const BanRecordList = z.array(
+  z.object({
+    UserId: z.string(),
+    Username: z.string(),
+    reason: z.string().optional(),
+    moderator: z.string().optional(),
+    bannedAt: z.number(),
+    expiresAt: z.number().optional(),
+    source: z.enum(["manager", "game", "import"]),
+  })
+);
+
+export type BanTarget = { Username: string; UserId: string | number };
+
+export type BanOptions = {
+  reason?: string;
+  moderator?: string;
+  /** Makes the ban temporary; it is lifted with `:unban` once it expires. */
+  durationMs?: number;
+};
+
+export type UnbanReason = "manual" | "expired" | "game";
+
+/** Portable ban list, as produced by `export()` and accepted by `import()`. */
+export type BanListExport = {
+  version: 1;
+  /** Unix seconds. */
+  exportedAt: number;
+  bans: BanRecord[];
+};
+
+export type BanImportResult = {
+  /** Records banned in-game and stored. */
+  imported: BanRecord[];
+  /** Records already banned here, or already expired. */
+  skipped: BanRecord[];
+  failed: { record: BanRecord; error: unknown }[];
+};
+
+export type BanReconciliation = {
+  /** Banned in-game, unknown locally; now stored with `source: "game"`. */
+  added: BanRecord[];
+  /** Stored locally but no longer banned in-game; now dropped. */
+  removed: BanRecord[];
+};
+
+/** Persistence for `BanManager`: the whole list is loaded once and saved on every change. */
+export interface BanStore {
+  load(): MaybePromise<BanRecord[]>;
+  save(records: BanRecord[]): MaybePromise<void>;
+}
+
+export class MemoryBanStore implements BanStore {
+  private records: BanRecord[] = [];
+
+  load() {
+    return this.records.map((record) => ({ ...record }));
+  }
+
+  save(records: BanRecord[]) {
+    this.records = records.map((record) => ({ ...record }));
+  }
+}
+
+export type FileBanStoreOptions = {
+  /** JSON file holding the ban list. Created on first save. */
+  path: string;
+};
+
+/**
+ * Keeps the ban list in a JSON file, replaced atomically on every save. A file
+ * that is not a valid ban list fails the load with a `SchemaValidationError`
+ * rather than being overwritten.
+ */
+export class FileBanStore implements BanStore {
+  private readonly path: string;
+
+  constructor(options: FileBanStoreOptions) {
+    this.path = options.path;
+  }
+
+  async load(): Promise<BanRecord[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new SchemaValidationError(
+        this.path,
+        `Failed to parse ban list ${this.path}: ${error}`,
+        { cause: error }
+      );
+    }
+    const result = BanRecordList.safeParse(data);
+    if (!result.success) {
+      throw new SchemaValidationError(
+        this.path,
+        `Invalid ban list ${this.path}: ${result.error.message}`,
+        { issues: result.error.issues, cause: result.error }
+      );
+    }
+    return result.data;
+  }
+
+  async save(records: BanRecord[]) {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(records, null, 2));
+    await rename(tmp, this.path);
+  }
+}
+
+export type BanManagerOptions = {
+  /** Defaults to a `MemoryBanStore`. */
+  store?: BanStore;
+  /** Time between expiry checks in ms while started. Defaults to 30s. */
+  checkIntervalMs?: number;
+  /** Time between reconciliations in ms while started; `0` disables them. Defaults to 5 min. */
+  reconcileIntervalMs?: number;
+  /**
+   * Bans and unbans issued through the manager are not reported by
+   * `reconcile()` for this long, so a stale `bans()` response does not undo
+   * them. Defaults to 60s.
+   */
+  graceMs?: number;
+  clock?: Clock;
+};
+
+export type BanManagerEvents = {
+  ban: [record: BanRecord];
+  unban: [record: BanRecord, reason: UnbanReason];
+  reconciled: [result: BanReconciliation];
+  error: [error: unknown];
+};
+
+/* Background work should yield to requests made for users. */
+const POLL = { priority: "low" } as const;
+const MODERATE = { priority: "high" } as const;
+
+/**
+ * Keeps a local ban database with the reason, moderator, time and expiry PRC
+ * does not store. Bans go through `:ban`/`:unban`, temporary bans are lifted
+ * when they expire, and `reconcile()` picks up bans added or removed in-game.
+ */
+export class BanManager extends EventEmitter<BanManagerEvents> {
+  private readonly store: BanStore;
+  private readonly checkIntervalMs: number;
+  private readonly reconcileIntervalMs: number;
+  private readonly graceMs: number;
+  private readonly clock: Clock;
+  private records?: Promise<Map<string, BanRecord>>;
+  /* UserId -> ms until which `reconcile()` leaves the player alone. */
+  private readonly recent = new Map<string, number>();
+  private saving: Promise<unknown> = Promise.resolve();
+  private timer?: ClockTimer;
+  private generation = 0;
+  private active = false;
+  private lastReconcile = 0;
+
+  constructor(
+    private server: ServerAPI,
+    private players: PlayersAPI,
+    options: BanManagerOptions = {}
+  ) {
+    super();
+    this.store = options.store ?? new MemoryBanStore();
+    this.checkIntervalMs = options.checkIntervalMs ?? 30_000;
+    this.reconcileIntervalMs = options.reconcileIntervalMs ?? 300_000;
+    this.graceMs = options.graceMs ?? 60_000;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get running() {
+    return this.active;
+  }
+
+  /** Checks expiries (and reconciles) now and then periodically until `stop()`. */
+  start() {
+    if (this.active) {
+      return this;
+    }
+    this.active = true;
+    this.lastReconcile = 0;
+    this.loop(++this.generation, 0);
+    return this;
+  }
+
+  stop() {
+    this.active = false;
+    this.generation++;
+    this.clock.clearTimeout(this.timer);
+    this.timer = undefined;
+    return this;
+  }
+
+  /** Bans `player` in-game and records it. Nothing is stored if the command fails. */
+  async ban(player: BanTarget, options: BanOptions = {}) {
+    // Before the command, so a reconcile running meanwhile can't adopt the
+    // ban as a game ban.
+    this.touch(String(player.UserId));
+    await this.server.command(
+      Commands.ban(player.Username, options.reason),
+      MODERATE
+    );
+    const now = this.seconds();
+    const record: BanRecord = {
+      UserId: String(player.UserId),
+      Username: player.Username,
+      reason: options.reason,
+      moderator: options.moderator,
+      bannedAt: now,
+      expiresAt:
+        options.durationMs === undefined
+          ? undefined
+          : now + Math.ceil(options.durationMs / 1000),
+      source: "manager",
+    };
+    await this.put(record);
+    this.emit("ban", record);
+    return record;
+  }
+
+  /**
+   * Unbans a player in-game by user ID, so renamed players are unbanned too,
+   * and drops the local record.
+   */
+  async unban(userId: string | number) {
+    const id = String(userId);
+    const record = (await this.load()).get(id);
+    this.touch(id);
+    await this.server.command(Commands.unban(Number(id)), MODERATE);
+    if (record) {
+      await this.drop(id);
+      this.emit("unban", record, "manual");
+    }
+    return record;
+  }
+
+  async get(userId: string | number) {
+    return (await this.load()).get(String(userId));
+  }
+
+  async isBanned(userId: string | number) {
+    const record = await this.get(userId);
+    return !!record && !this.expired(record);
+  }
+
+  /** Every stored ban, oldest first. */
+  async list() {
+    return [...(await this.load()).values()].sort(
+      (a, b) => a.bannedAt - b.bannedAt
+    );
+  }
+
+  /**
+   * Lifts every expired temporary ban. A failed `:unban` keeps the record so
+   * the next check retries it; failures are reported through `error` (or
+   * rethrown after the others were processed when nobody listens).
+   */
+  async expire() {
+    const lifted: BanRecord[] = [];
+    let failure: unknown;
+    for (const record of await this.list()) {
+      if (!this.expired(record)) continue;
+      this.touch(record.UserId);
+      try {
+        await this.server.command(
+          Commands.unban(Number(record.UserId)),
+          MODERATE
+        );
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        } else {
+          failure ??= error;
+        }
+        continue;
+      }
+      await this.drop(record.UserId);
+      lifted.push(record);
+      this.emit("unban", record, "expired");
+    }
+    if (failure) throw failure;
+    return lifted;
+  }
+
+  /**
+   * Compares the local list with the in-game ban list (fetched unless
+   * given) and adopts the differences: bans made in-game are stored, bans
+   * lifted in-game are dropped.
+   */
+  async reconcile(bans?: TBanEntry): Promise<BanReconciliation> {
+    const current = bans ?? (await this.players.bans(POLL));
+    const records = await this.load();
+    const now = this.clock.now();
+    const settled = (id: string) => (this.recent.get(id) ?? 0) <= now;
+    const result: BanReconciliation = { added: [], removed: [] };
+
+    for (const [id, username] of Object.entries(current)) {
+      if (records.has(id) || !settled(id)) continue;
+      result.added.push({
+        UserId: id,
+        Username: username,
+        bannedAt: Math.floor(now / 1000),
+        source: "game",
+      });
+    }
+    for (const record of records.values()) {
+      if (Object.hasOwn(current, record.UserId) || !settled(record.UserId)) {
+        continue;
+      }
+      result.removed.push(record);
+    }
+
+    for (const [id, until] of this.recent) {
+      if (until <= now) this.recent.delete(id);
+    }
+    if (result.added.length || result.removed.length) {
+      for (const record of result.added) records.set(record.UserId, record);
+      for (const record of result.removed) records.delete(record.UserId);
+      await this.persist(records);
+    }
+
+    for (const record of result.added) this.emit("ban", record);
+    for (const record of result.removed) this.emit("unban", record, "game");
+    this.emit("reconciled", result);
+    return result;
+  }
+
+  /** The active bans, for `import()` on another server. */
+  async export(): Promise<BanListExport> {
+    return {
+      version: 1,
+      exportedAt: this.seconds(),
+      bans: (await this.list()).filter((record) => !this.expired(record)),
+    };
+  }
+
+  /**
+   * Bans every player of an exported list who is not banned here yet,
+   * keeping the original reason, moderator and expiry.
+   */
+  async import(data: BanListExport | BanRecord[]): Promise<BanImportResult> {
+    const incoming = Array.isArray(data) ? data : data.bans;
+    const result: BanImportResult = { imported: [], skipped: [], failed: [] };
+
+    for (const original of incoming) {
+      const record: BanRecord = {
+        ...original,
+        UserId: String(original.UserId),
+        source: "import",
+      };
+      if (this.expired(record) || (await this.isBanned(record.UserId))) {
+        result.skipped.push(record);
+        continue;
+      }
+      this.touch(record.UserId);
+      try {
+        await this.server.command(
+          Commands.ban(record.Username, record.reason),
+          MODERATE
+        );
+      } catch (error) {
+        result.failed.push({ record, error });
+        continue;
+      }
+      await this.put(record);
+      result.imported.push(record);
+      this.emit("ban", record);
+    }
+    return result;
+  }
+
+  private load() {
+    if (!this.records) {
+      const records = Promise.resolve(this.store.load()).then(
+        (list) => new Map(list.map((record) => [record.UserId, record]))
+      );
+      this.records = records;
+      // A failed load is retried on the next call.
+      records.catch(() => {
+        if (this.records === records) this.records = undefined;
+      });
+    }
+    return this.records;
+  }
+
+  private async put(record: BanRecord) {
+    const records = await this.load();
+    records.set(record.UserId, record);
+    this.touch(record.UserId);
+    await this.persist(records);
+  }
+
+  private async drop(userId: string) {
+    const records = await this.load();
+    records.delete(userId);
+    await this.persist(records);
+  }
+
+  /* Saves one at a time so an older list never overwrites a newer one. */
+  private persist(records: Map<string, BanRecord>) {
+    const result = this.saving
+      .catch(() => undefined)
+      .then(() => this.store.save([...records.values()]));
+    this.saving = result;
+    return result;
+  }
+
+  private touch(userId: string) {
+    this.recent.set(userId, this.clock.now() + this.graceMs);
+  }
+
+  private expired(record: BanRecord) {
+    return record.expiresAt !== undefined && record.expiresAt <= this.seconds();
+  }
+
+  private seconds() {
+    return Math.floor(this.clock.now() / 1000);
+  }
+
+  private loop(generation: number, delay: number) {
+    this.timer = this.clock.setTimeout(async () => {
+      try {
+        await this.expire();
+        const now = this.clock.now();
+        if (
+          this.reconcileIntervalMs > 0 &&
+          now - this.lastReconcile >= this.reconcileIntervalMs
+        ) {
+          this.lastReconcile = now;
+          await this.reconcile();
+        }
+      } catch (error) {
+        if (this.listenerCount("error") > 0) this.emit("error", error);
+      }
+      if (this.active && generation === this.generation) {
+        this.loop(generation, this.checkIntervalMs);
+      }
+    }, delay);
+  }
+}
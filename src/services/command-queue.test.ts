@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LogsAPI } from "../endpoints/logs";
+import type { ServerAPI } from "../endpoints/server";
+import { settle } from "../testing";
+import { CommandLogEntry, type TCommandLogEntry } from "../types/responses";
+import { VirtualClock } from "../utils/clock";
+import { CommandQueue, CommandTimeoutError } from "./command-queue";
+
+function setup(options: { resendOnTimeout?: boolean } = {}) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const sent: string[] = [];
+  const log: TCommandLogEntry[] = [];
+  const server = {
+    command: async (command: string) => {
+      sent.push(command);
+    },
+  } as unknown as ServerAPI;
+  const logs = { commands: async () => log } as unknown as LogsAPI;
+  const queue = new CommandQueue(server, logs, { clock, ...options });
+  const seconds = () => Math.floor(clock.now() / 1000);
+  return { clock, sent, log, queue, seconds };
+}
+
+describe("CommandQueue", () => {
+  it("resolves with the entry logged for the API", async () => {
+    const { clock, sent, log, queue, seconds } = setup();
+    log.push(
+      CommandLogEntry.parse({
+        Player: "Remote Server",
+        Timestamp: seconds(),
+        Command: ":h hello",
+      })
+    );
+
+    const entry = await settle(clock, queue.enqueue(":h hello"));
+
+    assert.equal(entry.Username, "Remote Server");
+    assert.deepEqual(sent, [":h hello"]);
+  });
+
+  it("does not mistake a player's identical command for the queued one", async () => {
+    const { clock, log, queue, seconds } = setup();
+    log.push(
+      CommandLogEntry.parse({
+        Player: "mod:1",
+        Timestamp: seconds(),
+        Command: ":kick john",
+      })
+    );
+
+    const error = await settle(clock, queue.enqueue(":kick john")).catch(
+      (e) => e
+    );
+
+    assert.ok(error instanceof CommandTimeoutError);
+  });
+
+  it("does not re-send a command that timed out after being sent", async () => {
+    const { clock, sent, queue } = setup();
+
+    const error = await settle(clock, queue.enqueue(":kick john")).catch(
+      (e) => e
+    );
+
+    assert.ok(error instanceof CommandTimeoutError);
+    assert.equal(error.attempts, 1);
+    assert.deepEqual(sent, [":kick john"]);
+  });
+
+  it("re-sends timed out commands when opted in", async () => {
+    const { clock, sent, queue } = setup();
+
+    const error = await settle(
+      clock,
+      queue.enqueue(":weather rain", { resendOnTimeout: true, retries: 1 })
+    ).catch((e) => e);
+
+    assert.ok(error instanceof CommandTimeoutError);
+    assert.deepEqual(sent, [":weather rain", ":weather rain"]);
+  });
+});
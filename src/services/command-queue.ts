@@ -0,0 +1,329 @@
+import { ModuleOutdatedError, PRCError } from "../core/errors";
+import { LogsAPI } from "../endpoints/logs";
+import { ServerAPI } from "../endpoints/server";
+import { REMOTE_SERVER, type TCommandLogEntry } from "../types/responses";
+import { type Clock, type ClockTimer, systemClock } from "../utils/clock";
+import { sleep } from "../utils/headers";
+
+export type CommandQueueOptions = {
+  /** How often the command log is polled while commands await confirmation. Defaults to 3s. */
+  pollIntervalMs?: number;
+  /** How long a sent command may take to show up in the command log. Defaults to 30s. */
+  timeoutMs?: number;
+  /** How many times a command is re-sent after a failed send. Defaults to 2. */
+  retries?: number;
+  /** Delay before re-sending a command. Defaults to 2s. */
+  retryDelayMs?: number;
+  /** Decides whether a failed send is retried. */
+  shouldRetry?: (error: unknown) => boolean;
+  /**
+   * Also re-send commands that were accepted but never showed up in the
+   * command log. Only safe for idempotent commands, since the first attempt
+   * may still have run. Defaults to `false`.
+   */
+  resendOnTimeout?: boolean;
+  /** Allowed clock skew between this machine and PRC log timestamps. Defaults to 5s. */
+  clockSkewMs?: number;
+  clock?: Clock;
+};
+
+export type EnqueueOptions = {
+  /** Higher priorities are sent first. Defaults to 0. */
+  priority?: number;
+  timeoutMs?: number;
+  retries?: number;
+  resendOnTimeout?: boolean;
+};
+
+export class CommandVerificationError extends Error {
+  public readonly command: string;
+  public readonly attempts: number;
+  public readonly cause?: unknown;
+
+  constructor(
+    command: string,
+    message: string,
+    attempts: number,
+    cause?: unknown
+  ) {
+    super(`${message}: ${command}`);
+    this.name = "CommandVerificationError";
+    this.command = command;
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
+
+export class CommandTimeoutError extends CommandVerificationError {
+  public readonly timeoutMs: number;
+
+  constructor(command: string, attempts: number, timeoutMs: number) {
+    super(
+      command,
+      `Command did not appear in the command log within ${timeoutMs}ms`,
+      attempts
+    );
+    this.name = "CommandTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+type QueuedCommand = {
+  command: string;
+  priority: number;
+  seq: number;
+  attempts: number;
+  retries: number;
+  timeoutMs: number;
+  resendOnTimeout: boolean;
+  sentAt: number;
+  resolve: (entry: TCommandLogEntry) => void;
+  reject: (error: unknown) => void;
+};
+
+/*
+  An outdated module is not worth retrying immediately, but the queue waits
+  `retryDelayMs` between attempts, which gives the server time to restart.
+*/
+function defaultShouldRetry(error: unknown) {
+  return (
+    error instanceof PRCError &&
+    (error.isRetryable || error instanceof ModuleOutdatedError)
+  );
+}
+
+function normalize(command: string) {
+  return command.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Sends commands one at a time in priority order and confirms each of them by
+ * finding it in `LogsAPI.commands()`. A 204 from the command endpoint only
+ * means PRC accepted the request, not that the in-game server ran it.
+ *
+ * Matching is done on the command text of entries logged for the API
+ * (`Remote Server`), so aliases (e.g. `:m` vs `:message`) must be sent the
+ * way they are logged and identical in-game commands are never mistaken for
+ * the queued one.
+ */
+export class CommandQueue {
+  private readonly pollIntervalMs: number;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly shouldRetry: (error: unknown) => boolean;
+  private readonly resendOnTimeout: boolean;
+  private readonly clockSkewMs: number;
+  private readonly clock: Clock;
+
+  private readonly pending: QueuedCommand[] = [];
+  private readonly awaiting: QueuedCommand[] = [];
+  /*
+    Log entries already matched, counted per key because identical commands
+    sent within the same second produce identical entries.
+  */
+  private readonly claimed = new Map<
+    string,
+    { count: number; timestamp: number }
+  >();
+  private seq = 0;
+  private draining = false;
+  private pollTimer: ClockTimer | undefined;
+
+  constructor(
+    private server: ServerAPI,
+    private logs: LogsAPI,
+    options: CommandQueueOptions = {}
+  ) {
+    this.pollIntervalMs = Math.max(0, options.pollIntervalMs ?? 3_000);
+    this.timeoutMs = Math.max(0, options.timeoutMs ?? 30_000);
+    this.retries = Math.max(0, options.retries ?? 2);
+    this.retryDelayMs = Math.max(0, options.retryDelayMs ?? 2_000);
+    this.shouldRetry = options.shouldRetry ?? defaultShouldRetry;
+    this.resendOnTimeout = options.resendOnTimeout ?? false;
+    this.clockSkewMs = Math.max(0, options.clockSkewMs ?? 5_000);
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /** Commands waiting to be sent plus those awaiting confirmation. */
+  get size() {
+    return this.pending.length + this.awaiting.length;
+  }
+
+  enqueue(
+    command: string,
+    options: EnqueueOptions = {}
+  ): Promise<TCommandLogEntry> {
+    return new Promise<TCommandLogEntry>((resolve, reject) => {
+      this.insert({
+        command,
+        priority: options.priority ?? 0,
+        seq: this.seq++,
+        attempts: 0,
+        retries: Math.max(0, options.retries ?? this.retries),
+        timeoutMs: Math.max(0, options.timeoutMs ?? this.timeoutMs),
+        resendOnTimeout: options.resendOnTimeout ?? this.resendOnTimeout,
+        sentAt: 0,
+        resolve,
+        reject,
+      });
+      void this.drain();
+    });
+  }
+
+  /** Rejects every queued and unconfirmed command. */
+  clear(reason: unknown = new Error("Command queue cleared")) {
+    const dropped = [...this.pending.splice(0), ...this.awaiting.splice(0)];
+    for (const item of dropped) {
+      item.reject(reason);
+    }
+    if (this.pollTimer) {
+      this.clock.clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private insert(item: QueuedCommand) {
+    const index = this.pending.findIndex(
+      (other) =>
+        other.priority < item.priority ||
+        (other.priority === item.priority && other.seq > item.seq)
+    );
+    if (index === -1) {
+      this.pending.push(item);
+    } else {
+      this.pending.splice(index, 0, item);
+    }
+  }
+
+  private async drain() {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.pending.length) {
+        await this.send(this.pending.shift() as QueuedCommand);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async send(item: QueuedCommand) {
+    item.attempts++;
+    item.sentAt = this.clock.now();
+
+    try {
+      await this.server.command(item.command);
+    } catch (error) {
+      if (item.attempts <= item.retries && this.shouldRetry(error)) {
+        await sleep(this.retryDelayMs, this.clock);
+        this.insert(item);
+        return;
+      }
+      item.reject(
+        new CommandVerificationError(
+          item.command,
+          "Command could not be sent",
+          item.attempts,
+          error
+        )
+      );
+      return;
+    }
+
+    this.awaiting.push(item);
+    this.schedulePoll();
+  }
+
+  private schedulePoll() {
+    if (this.pollTimer || !this.awaiting.length) return;
+    this.pollTimer = this.clock.setTimeout(
+      () => void this.verify(),
+      this.pollIntervalMs
+    );
+  }
+
+  private async verify() {
+    let entries: TCommandLogEntry[] = [];
+    let pollError: unknown;
+    try {
+      entries = await this.logs.commands();
+    } catch (error) {
+      pollError = error;
+    }
+
+    const now = this.clock.now();
+    this.pruneClaimed(now);
+
+    for (const item of [...this.awaiting]) {
+      const match = this.findMatch(entries, item);
+      if (!match && now < item.sentAt + item.timeoutMs) {
+        continue;
+      }
+
+      this.awaiting.splice(this.awaiting.indexOf(item), 1);
+      if (match) {
+        const key = entryKey(match);
+        this.claimed.set(key, {
+          count: (this.claimed.get(key)?.count ?? 0) + 1,
+          timestamp: match.Timestamp,
+        });
+        item.resolve(match);
+      } else if (item.resendOnTimeout && item.attempts <= item.retries) {
+        this.insert(item);
+        void this.drain();
+      } else if (pollError) {
+        item.reject(
+          new CommandVerificationError(
+            item.command,
+            "Command log could not be read",
+            item.attempts,
+            pollError
+          )
+        );
+      } else {
+        item.reject(
+          new CommandTimeoutError(item.command, item.attempts, item.timeoutMs)
+        );
+      }
+    }
+
+    this.pollTimer = undefined;
+    this.schedulePoll();
+  }
+
+  private findMatch(entries: TCommandLogEntry[], item: QueuedCommand) {
+    const command = normalize(item.command);
+    const since = Math.floor((item.sentAt - this.clockSkewMs) / 1000);
+    const seen = new Map<string, number>();
+    const candidates = entries
+      .filter(
+        (entry) =>
+          entry.Username === REMOTE_SERVER &&
+          entry.Timestamp >= since &&
+          normalize(entry.Command) === command
+      )
+      .sort((a, b) => a.Timestamp - b.Timestamp);
+
+    for (const entry of candidates) {
+      const key = entryKey(entry);
+      const occurrence = (seen.get(key) ?? 0) + 1;
+      seen.set(key, occurrence);
+      if (occurrence > (this.claimed.get(key)?.count ?? 0)) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  private pruneClaimed(now: number) {
+    const cutoff = Math.floor(now / 1000) - 3600;
+    for (const [key, { timestamp }] of this.claimed) {
+      if (timestamp < cutoff) this.claimed.delete(key);
+    }
+  }
+}
+
+function entryKey(entry: TCommandLogEntry) {
+  return `${entry.Timestamp}:${entry.UserId}:${entry.Command}`;
+}
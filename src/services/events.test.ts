@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer } from "../testing";
+import { VirtualClock } from "../utils/clock";
+import type { EventSource, EventStreamOptions } from "./events";
+
+function setup(events: EventStreamOptions = {}) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const mock = createMockServer({
+    serverKey: "key",
+    now: () => clock.now(),
+    rateLimit: false,
+  });
+  const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock, events });
+  mock.join({ name: "john", userId: 1 }).join({ name: "jane", userId: 2 });
+  // Past the limiter's pacing, so every poll starts right away.
+  const poll = async (source: EventSource) => {
+    await clock.advance(1000);
+    await api.events.poll(source);
+  };
+  return { clock, mock, api, poll };
+}
+
+describe("EventStream", () => {
+  it("emits identical kills logged within the same second", async () => {
+    const { mock, api, poll } = setup();
+    const kills: string[] = [];
+    api.events.on("kill", (entry) => kills.push(entry.Killed.Username));
+
+    await poll("kills");
+    mock.kill(1, 2).kill(1, 2);
+    await poll("kills");
+    await poll("kills");
+
+    assert.deepEqual(kills, ["jane", "jane"]);
+  });
+
+  it("emits a leave and rejoin within the same second", async () => {
+    const { mock, api, poll } = setup();
+    const events: string[] = [];
+    api.events.on("playerJoin", (entry) =>
+      events.push(`join ${entry.Timestamp}`)
+    );
+    api.events.on("playerLeave", (entry) =>
+      events.push(`leave ${entry.Timestamp}`)
+    );
+
+    await poll("joins");
+    mock.leave(1).join({ name: "john", userId: 1 });
+    mock.leave(1).join({ name: "john", userId: 1 });
+    await poll("joins");
+    await poll("joins");
+
+    const at = events[0].split(" ")[1];
+    assert.deepEqual(events, [
+      `leave ${at}`,
+      `join ${at}`,
+      `leave ${at}`,
+      `join ${at}`,
+    ]);
+  });
+
+  it("resumes from a cursor without repeating entries", async () => {
+    const first = setup({ replay: true });
+    first.mock.kill(1, 2).kill(1, 2);
+    await first.poll("kills");
+
+    const second = setup({ cursor: first.api.events.cursor() });
+    const kills: number[] = [];
+    second.api.events.on("kill", (entry) => kills.push(entry.Timestamp));
+    // The same second, now logged three times.
+    second.mock.kill(1, 2).kill(1, 2).kill(1, 2);
+    await second.poll("kills");
+
+    assert.equal(kills.length, 1);
+  });
+
+  it("reports team and permission changes from the players list", async () => {
+    const { mock, api, poll } = setup();
+    const changes: string[] = [];
+    api.events.on("teamChange", ({ player, current }) =>
+      changes.push(`${player.Username} team ${current}`)
+    );
+    api.events.on("permissionChange", ({ player, current }) =>
+      changes.push(`${player.Username} permission ${current}`)
+    );
+
+    await poll("players");
+    mock.update(1, { team: "Police" });
+    mock.update(2, { permission: "Server Moderator" });
+    await poll("players");
+
+    assert.deepEqual(changes, [
+      "john team Police",
+      "jane permission Server Moderator",
+    ]);
+  });
+
+  it("polls every enabled source while started", async () => {
+    const { clock, mock, api } = setup({
+      intervals: { joins: 0, commands: 0, modCalls: 0, players: 0 },
+    });
+    const kills: number[] = [];
+    api.events.on("kill", (entry) => kills.push(entry.Timestamp));
+
+    api.events.start();
+    await clock.advance(1000);
+    mock.kill(1, 2);
+    await clock.advance(10_000);
+    api.events.stop();
+    mock.kill(2, 1);
+    await clock.advance(10_000);
+
+    assert.equal(kills.length, 1);
+    assert.ok(mock.requests.every((r) => r.path === "/v1/server/killlogs"));
+  });
+});
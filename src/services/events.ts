@@ -0,0 +1,279 @@
+import { EventEmitter } from "node:events";
+import { LogsAPI } from "../endpoints/logs";
+import { PlayersAPI } from "../endpoints/players";
+import type {
+  TCommandLogEntry,
+  TJoinLogEntry,
+  TKillLogEntry,
+  TModCallEntry,
+  TPlayer,
+} from "../types/responses";
+import { type Clock, type ClockTimer, systemClock } from "../utils/clock";
+
+export type LogSource = "joins" | "kills" | "commands" | "modCalls";
+export type EventSource = LogSource | "players";
+
+/**
+ * Last emitted timestamp per log plus the entries already seen at it. An
+ * entry logged several times within that second is listed once per copy.
+ */
+export type LogCursor = { timestamp: number; keys: string[] };
+export type EventCursor = Partial<Record<LogSource, LogCursor>>;
+
+export type PlayerChange<T> = {
+  player: TPlayer;
+  previous: T;
+  current: T;
+};
+
+export type EventStreamEvents = {
+  playerJoin: [entry: TJoinLogEntry];
+  playerLeave: [entry: TJoinLogEntry];
+  kill: [entry: TKillLogEntry];
+  command: [entry: TCommandLogEntry];
+  modCall: [entry: TModCallEntry];
+  teamChange: [change: PlayerChange<TPlayer["Team"]>];
+  permissionChange: [change: PlayerChange<TPlayer["Permission"]>];
+  error: [error: unknown, source: EventSource];
+};
+
+export type EventStreamOptions = {
+  /** Poll interval per source in ms. `0` disables a source. */
+  intervals?: Partial<Record<EventSource, number>>;
+  /** Resume from a cursor returned by `cursor()` instead of the current logs. */
+  cursor?: EventCursor;
+  /**
+   * Emit entries already present on the first poll of a source without a
+   * cursor. Defaults to `false`, so only new activity is reported.
+   */
+  replay?: boolean;
+  clock?: Clock;
+};
+
+const DEFAULT_INTERVALS: Record<EventSource, number> = {
+  joins: 10_000,
+  kills: 10_000,
+  commands: 10_000,
+  modCalls: 10_000,
+  players: 15_000,
+};
+
+type TimestampedEntry = { Timestamp: number };
+
+/* Background polling should not hold up requests made on behalf of users. */
+const POLL = { priority: "low" } as const;
+
+/**
+ * Polls the log endpoints and the players list and turns them into a stream of
+ * events, emitting each log entry once. Requests go through the regular
+ * `HttpClient`, so polls share the rate limiter budget with every other call.
+ */
+export class EventStream extends EventEmitter<EventStreamEvents> {
+  private readonly intervals: Record<EventSource, number>;
+  private readonly replay: boolean;
+  private readonly clock: Clock;
+  private readonly timers = new Map<EventSource, ClockTimer>();
+  private cursors: EventCursor;
+  private players?: Map<string, TPlayer>;
+  private generation = 0;
+  private active = false;
+
+  constructor(
+    private logsApi: LogsAPI,
+    private playersApi: PlayersAPI,
+    options: EventStreamOptions = {}
+  ) {
+    super();
+    this.intervals = { ...DEFAULT_INTERVALS, ...options.intervals };
+    this.replay = Boolean(options.replay);
+    this.cursors = cloneCursor(options.cursor ?? {});
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get running() {
+    return this.active;
+  }
+
+  start(options: Pick<EventStreamOptions, "cursor" | "intervals"> = {}) {
+    if (this.active) {
+      return this;
+    }
+    if (options.cursor) {
+      this.cursors = cloneCursor(options.cursor);
+    }
+    Object.assign(this.intervals, options.intervals);
+
+    this.active = true;
+    const generation = ++this.generation;
+    for (const source of Object.keys(this.intervals) as EventSource[]) {
+      if (this.intervals[source] > 0) {
+        this.loop(source, generation, 0);
+      }
+    }
+    return this;
+  }
+
+  stop() {
+    this.active = false;
+    this.generation++;
+    for (const timer of this.timers.values()) {
+      this.clock.clearTimeout(timer);
+    }
+    this.timers.clear();
+    return this;
+  }
+
+  /** Snapshot of the current position; pass it to `start()` after a restart. */
+  cursor(): EventCursor {
+    return cloneCursor(this.cursors);
+  }
+
+  /** Runs a single poll of `source` immediately, regardless of `start()`. */
+  async poll(source: EventSource) {
+    switch (source) {
+      case "joins":
+        return this.pollLog(
+          source,
+          () => this.logsApi.joins(POLL),
+          (entry) => this.emit(entry.Join ? "playerJoin" : "playerLeave", entry)
+        );
+      case "kills":
+        return this.pollLog(
+          source,
+          () => this.logsApi.kills(POLL),
+          (entry) => this.emit("kill", entry)
+        );
+      case "commands":
+        return this.pollLog(
+          source,
+          () => this.logsApi.commands(POLL),
+          (entry) => this.emit("command", entry)
+        );
+      case "modCalls":
+        return this.pollLog(
+          source,
+          () => this.logsApi.modCalls(POLL),
+          (entry) => this.emit("modCall", entry)
+        );
+      case "players":
+        return this.pollPlayers();
+    }
+  }
+
+  private loop(source: EventSource, generation: number, delay: number) {
+    const timer = this.clock.setTimeout(async () => {
+      try {
+        await this.poll(source);
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error, source);
+        }
+      }
+      if (this.active && generation === this.generation) {
+        this.loop(source, generation, this.intervals[source]);
+      }
+    }, delay);
+    this.timers.set(source, timer);
+  }
+
+  private async pollLog<T extends TimestampedEntry>(
+    source: LogSource,
+    fetchEntries: () => Promise<T[]>,
+    emit: (entry: T) => void
+  ) {
+    const entries = await fetchEntries();
+    const previous = this.cursors[source];
+    let timestamp = previous?.timestamp ?? 0;
+    const seen = countKeys(previous?.keys ?? []);
+    // Identical entries within one second are separate events, so copies are
+    // counted rather than collapsed.
+    let counts = new Map<string, number>();
+    const fresh: T[] = [];
+
+    // Logs list the newest entry first; reversing before the stable sort
+    // keeps entries of the same second in the order they happened.
+    for (const entry of [...entries]
+      .reverse()
+      .sort((a, b) => a.Timestamp - b.Timestamp)) {
+      if (entry.Timestamp < timestamp) continue;
+      if (entry.Timestamp > timestamp) {
+        timestamp = entry.Timestamp;
+        counts = new Map();
+        seen.clear();
+      }
+      const key = entryKey(entry);
+      const occurrence = (counts.get(key) ?? 0) + 1;
+      counts.set(key, occurrence);
+      if (occurrence > (seen.get(key) ?? 0)) fresh.push(entry);
+    }
+
+    for (const [key, count] of seen) {
+      if (count > (counts.get(key) ?? 0)) counts.set(key, count);
+    }
+    this.cursors[source] = {
+      timestamp,
+      keys: [...counts].flatMap(([key, count]) =>
+        Array<string>(count).fill(key)
+      ),
+    };
+
+    if (!previous && !this.replay) {
+      return;
+    }
+    for (const entry of fresh) {
+      emit(entry);
+    }
+  }
+
+  private async pollPlayers() {
+    const list = await this.playersApi.list(POLL);
+    const previous = this.players;
+    this.players = new Map(list.map((player) => [player.UserId, player]));
+
+    if (!previous) {
+      return;
+    }
+
+    for (const player of list) {
+      const before = previous.get(player.UserId);
+      if (!before) continue;
+      if (before.Team !== player.Team) {
+        this.emit("teamChange", {
+          player,
+          previous: before.Team,
+          current: player.Team,
+        });
+      }
+      if (before.Permission !== player.Permission) {
+        this.emit("permissionChange", {
+          player,
+          previous: before.Permission,
+          current: player.Permission,
+        });
+      }
+    }
+  }
+}
+
+function entryKey(entry: TimestampedEntry) {
+  return `${entry.Timestamp}:${JSON.stringify(entry)}`;
+}
+
+function countKeys(keys: string[]) {
+  const counts = new Map<string, number>();
+  for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  return counts;
+}
+
+function cloneCursor(cursor: EventCursor): EventCursor {
+  const copy: EventCursor = {};
+  for (const [source, value] of Object.entries(cursor)) {
+    if (value) {
+      copy[source as LogSource] = {
+        timestamp: value.timestamp,
+        keys: [...value.keys],
+      };
+    }
+  }
+  return copy;
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer, settle } from "../testing";
+import { VirtualClock } from "../utils/clock";
+
+function setup() {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const mock = createMockServer({
+    serverKey: "key",
+    now: () => clock.now(),
+    rateLimit: false,
+  });
+  const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+  return { clock, mock, api };
+}
+
+describe("PlayerResolver", () => {
+  it("indexes players, staff and callsigns from responses", async () => {
+    const { clock, mock, api } = setup();
+    mock.join({ name: "john", userId: 1, callsign: "A-12" });
+    mock.setStaff({ coOwners: [6], admins: { 5: "boss" } });
+
+    await settle(clock, api.players.list());
+    await settle(clock, api.players.staff());
+
+    assert.equal(api.resolver.byCallsign("a-12")?.UserId, "1");
+    assert.equal(api.resolver.byUsername("JOHN")?.online, true);
+    assert.deepEqual(api.resolver.resolveIds([5, 6]), [
+      { UserId: "5", Username: "boss" },
+      { UserId: "6", Username: undefined },
+    ]);
+  });
+
+  it("resolves moderator input with typos, refusing ambiguous input", async () => {
+    const { clock, mock, api } = setup();
+    mock
+      .join({ name: "JohnSmith", userId: 1 })
+      .join({ name: "Joe", userId: 2 });
+    await settle(clock, api.players.list());
+
+    assert.equal(api.resolver.resolve("jonh")?.Username, "JohnSmith");
+    assert.equal(api.resolver.resolve("2")?.Username, "Joe");
+    assert.equal(api.resolver.resolve("jo"), undefined);
+    assert.deepEqual(
+      api.resolver.search("jo").map((match) => match.kind),
+      ["prefix", "prefix"]
+    );
+  });
+
+  it("prefers players who are still in the server", async () => {
+    const { clock, mock, api } = setup();
+    mock.join({ name: "john", userId: 1 }).join({ name: "johnny", userId: 2 });
+    await settle(clock, api.players.list());
+    mock.leave(1);
+    await settle(clock, api.players.list());
+
+    assert.equal(api.resolver.byId(1)?.online, false);
+    assert.deepEqual(
+      api.resolver.online().map((player) => player.Username),
+      ["johnny"]
+    );
+    assert.equal(api.resolver.resolve("john")?.Username, "johnny");
+  });
+
+  it("resolves vehicle owners reported as bare usernames", async () => {
+    const { clock, mock, api } = setup();
+    mock.join({ name: "john", userId: 1 });
+    mock
+      .spawnVehicle({ name: "Falcon", owner: "john" })
+      .spawnVehicle({ name: "Bullhorn", owner: "jane" })
+      .spawnVehicle({ name: "Chevlon", owner: "joe:3" });
+
+    await settle(clock, api.players.list());
+    const vehicles = api.resolver.resolveVehicles(
+      await settle(clock, api.server.vehicles())
+    );
+
+    assert.deepEqual(
+      vehicles.map((vehicle) => vehicle.Owner),
+      [
+        { Username: "john", UserId: "1" },
+        { Username: "jane" },
+        { Username: "joe", UserId: "3" },
+      ]
+    );
+  });
+});
@@ -0,0 +1,371 @@
+import type { HttpClientHooks } from "../core/hooks";
+import {
+  type TBanEntry,
+  type TCommandLogEntry,
+  type TJoinLogEntry,
+  type TKillLogEntry,
+  type TModCallEntry,
+  type TPlayer,
+  type TPlayersResponse,
+  type TServerStatus,
+  type TStaffResponse,
+  type TVehiclesResponse,
+} from "../types/responses";
+import { type Clock, systemClock } from "../utils/clock";
+
+export type PlayerIdentity = {
+  UserId: string;
+  Username?: string;
+  Callsign?: string | null;
+  Team?: string;
+  Permission?: TPlayer["Permission"];
+  /** Whether the player was in the most recent players list. */
+  online: boolean;
+  /** When the player last appeared in any response (ms since epoch). */
+  lastSeen: number;
+};
+
+export type PlayerMatchKind =
+  | "id"
+  | "username"
+  | "callsign"
+  | "prefix"
+  | "partial"
+  | "fuzzy";
+
+export type PlayerMatch = {
+  player: PlayerIdentity;
+  kind: PlayerMatchKind;
+  /** 1 for exact matches, lower for weaker ones. */
+  score: number;
+};
+
+export type PlayerSearchOptions = {
+  /** Defaults to 5. */
+  limit?: number;
+  /** Only consider players in the most recent players list. */
+  onlineOnly?: boolean;
+};
+
+export type PlayerResolverOptions = {
+  clock?: Clock;
+  /**
+   * Largest edit distance accepted by fuzzy matching, as a fraction of the
+   * query length. Defaults to 0.34 (one typo per three characters).
+   */
+  fuzziness?: number;
+};
+
+type IdentityUpdate = Partial<Omit<PlayerIdentity, "UserId" | "lastSeen">> & {
+  UserId: string | number;
+};
+
+const SCORES: Record<PlayerMatchKind, number> = {
+  id: 1,
+  username: 1,
+  callsign: 0.95,
+  prefix: 0.8,
+  partial: 0.6,
+  fuzzy: 0.4,
+};
+
+/**
+ * Index of player identities built from the responses flowing through an
+ * `HttpClient`. Register it with `http.use(resolver.hooks())` (`PRC` does
+ * this for you) and every players list, log, staff list, ban list and vehicle
+ * list teaches it more names, IDs and callsigns.
+ */
+export class PlayerResolver {
+  private readonly clock: Clock;
+  private readonly fuzziness: number;
+  private readonly players = new Map<string, PlayerIdentity>();
+  private readonly usernames = new Map<string, string>();
+  private readonly callsigns = new Map<string, string>();
+
+  constructor(options: PlayerResolverOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.fuzziness = options.fuzziness ?? 0.34;
+  }
+
+  /** Hooks that feed every validated response into the index. */
+  hooks(): HttpClientHooks {
+    return {
+      onData: (ctx) => this.observe(new URL(ctx.url).pathname, ctx.data),
+    };
+  }
+
+  /** Feeds a validated payload for `path` (e.g. `/v1/server/players`) into the index. */
+  observe(path: string, data: unknown) {
+    switch (path.replace(/\/+$/, "")) {
+      case "/v1/server/players":
+        this.observePlayers(data as TPlayersResponse);
+        break;
+      case "/v1/server/joinlogs":
+        for (const entry of data as TJoinLogEntry[]) this.remember(entry);
+        break;
+      case "/v1/server/killlogs":
+        for (const entry of data as TKillLogEntry[]) {
+          this.remember(entry.Killer);
+          this.remember(entry.Killed);
+        }
+        break;
+      case "/v1/server/modcalls":
+        for (const entry of data as TModCallEntry[]) {
+          this.remember(entry.Caller);
+          if (entry.Moderator) this.remember(entry.Moderator);
+        }
+        break;
+      case "/v1/server/commandlogs":
+        for (const { Username, UserId } of data as TCommandLogEntry[]) {
+          // Commands sent through the API are logged without a user ID.
+          if (UserId) this.remember({ Username, UserId });
+        }
+        break;
+      case "/v1/server/vehicles":
+        for (const { Owner } of data as TVehiclesResponse) {
+          // Bare usernames can't be indexed without a user ID.
+          if (Owner?.UserId) {
+            this.remember({ UserId: Owner.UserId, Username: Owner.Username });
+          }
+        }
+        break;
+      case "/v1/server/staff":
+        this.observeStaff(data as TStaffResponse);
+        break;
+      case "/v1/server/bans":
+        for (const [UserId, Username] of Object.entries(data as TBanEntry)) {
+          this.remember({ UserId, Username });
+        }
+        break;
+      case "/v1/server": {
+        const { OwnerId, CoOwners = [] } = data as TServerStatus;
+        for (const id of OwnerId != null ? [OwnerId, ...CoOwners] : CoOwners) {
+          this.remember({ UserId: id });
+        }
+        break;
+      }
+    }
+  }
+
+  /** Adds or updates an identity. Unknown fields keep their previous value. */
+  remember(update: IdentityUpdate) {
+    if (update.UserId == null || update.UserId === "") return;
+    const UserId = String(update.UserId);
+
+    const previous = this.players.get(UserId);
+    const identity: PlayerIdentity = {
+      online: false,
+      ...previous,
+      ...definedOnly({
+        Username: update.Username,
+        Callsign: update.Callsign,
+        Team: update.Team,
+        Permission: update.Permission,
+        online: update.online,
+      }),
+      UserId,
+      lastSeen: this.clock.now(),
+    };
+
+    if (previous?.Username && previous.Username !== identity.Username) {
+      this.usernames.delete(previous.Username.toLowerCase());
+    }
+    if (previous?.Callsign && previous.Callsign !== identity.Callsign) {
+      this.callsigns.delete(previous.Callsign.toLowerCase());
+    }
+    if (identity.Username) {
+      this.usernames.set(identity.Username.toLowerCase(), UserId);
+    }
+    if (identity.Callsign) {
+      this.callsigns.set(identity.Callsign.toLowerCase(), UserId);
+    }
+
+    this.players.set(UserId, identity);
+    return identity;
+  }
+
+  byId(id: string | number) {
+    return this.players.get(String(id));
+  }
+
+  /** Case-insensitive exact username lookup. */
+  byUsername(username: string) {
+    const id = this.usernames.get(username.toLowerCase());
+    return id ? this.players.get(id) : undefined;
+  }
+
+  /** Case-insensitive exact callsign lookup. */
+  byCallsign(callsign: string) {
+    const id = this.callsigns.get(callsign.toLowerCase());
+    return id ? this.players.get(id) : undefined;
+  }
+
+  /** Username for a bare user ID (queue entries, co-owners), if it was ever seen. */
+  usernameOf(id: string | number) {
+    return this.players.get(String(id))?.Username;
+  }
+
+  /** Pairs bare user IDs with the usernames known for them. */
+  resolveIds(ids: Iterable<string | number>) {
+    return Array.from(ids, (id) => ({
+      UserId: String(id),
+      Username: this.usernameOf(id),
+    }));
+  }
+
+  /**
+   * Fills in `Owner.UserId` of vehicles whose owner PRC reported as a bare
+   * username, where the username is known. Other owners are kept as they are.
+   */
+  resolveVehicles(vehicles: TVehiclesResponse): TVehiclesResponse {
+    return vehicles.map((vehicle) => {
+      const owner = vehicle.Owner;
+      if (!owner || owner.UserId) return vehicle;
+      const UserId = this.byUsername(owner.Username)?.UserId;
+      return UserId ? { ...vehicle, Owner: { ...owner, UserId } } : vehicle;
+    });
+  }
+
+  /**
+   * Ranks known players against free-form moderator input such as `john`,
+   * `Jo`, a user ID or a callsign. Exact matches come first, then prefixes,
+   * substrings and finally usernames within a small edit distance.
+   */
+  search(query: string, options: PlayerSearchOptions = {}): PlayerMatch[] {
+    const needle = query.trim().replace(/^@/, "").toLowerCase();
+    if (!needle) return [];
+
+    const matches: PlayerMatch[] = [];
+    for (const player of this.players.values()) {
+      if (options.onlineOnly && !player.online) continue;
+      const match = this.match(player, needle);
+      if (match) matches.push(match);
+    }
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          Number(b.player.online) - Number(a.player.online) ||
+          b.player.lastSeen - a.player.lastSeen
+      )
+      .slice(0, options.limit ?? 5);
+  }
+
+  /**
+   * Best single match for `query`, or `undefined` when nothing matches or the
+   * top candidates matched the same way (e.g. `jo` prefixes both `John` and
+   * `Joe`).
+   * Prefers online players, so `kick john` targets someone in the server.
+   */
+  resolve(query: string) {
+    const online = this.search(query, { limit: 2, onlineOnly: true });
+    const [first, second] = online.length
+      ? online
+      : this.search(query, { limit: 2 });
+    if (!first || (second && second.kind === first.kind)) return undefined;
+    return first.player;
+  }
+
+  /** Players in the most recent players list. */
+  online() {
+    return [...this.players.values()].filter((player) => player.online);
+  }
+
+  all() {
+    return [...this.players.values()];
+  }
+
+  get size() {
+    return this.players.size;
+  }
+
+  clear() {
+    this.players.clear();
+    this.usernames.clear();
+    this.callsigns.clear();
+  }
+
+  private observePlayers(players: TPlayersResponse) {
+    const present = new Set<string>();
+    for (const player of players) {
+      present.add(player.UserId);
+      this.remember({ ...player, online: true });
+    }
+    for (const player of this.players.values()) {
+      if (!present.has(player.UserId)) player.online = false;
+    }
+  }
+
+  /* Admins and Mods map user IDs to usernames. */
+  private observeStaff(staff: TStaffResponse) {
+    for (const id of staff.CoOwners ?? []) this.remember({ UserId: id });
+    for (const group of [staff.Admins, staff.Mods]) {
+      for (const [UserId, Username] of Object.entries(group ?? {})) {
+        this.remember({ UserId, Username });
+      }
+    }
+  }
+
+  private match(player: PlayerIdentity, needle: string): PlayerMatch | null {
+    const name = player.Username?.toLowerCase();
+    const callsign = player.Callsign?.toLowerCase();
+
+    let kind: PlayerMatchKind | undefined;
+    let score = 0;
+    if (player.UserId === needle) kind = "id";
+    else if (name === needle) kind = "username";
+    else if (callsign === needle) kind = "callsign";
+    else if (name?.startsWith(needle)) kind = "prefix";
+    else if (name?.includes(needle)) kind = "partial";
+
+    if (kind) {
+      score = SCORES[kind];
+      // Among prefixes and substrings, the closer the length the better.
+      if ((kind === "prefix" || kind === "partial") && name) {
+        score -= (0.1 * (name.length - needle.length)) / name.length;
+      }
+      return { player, kind, score };
+    }
+
+    if (!name) return null;
+    const maxDistance = Math.max(1, Math.floor(needle.length * this.fuzziness));
+    // Compare against the start of long names so `jonh` finds `JohnSmith123`.
+    const distance = Math.min(
+      editDistance(needle, name),
+      editDistance(needle, name.slice(0, needle.length))
+    );
+    if (distance > maxDistance) return null;
+    score = SCORES.fuzzy - (0.1 * distance) / (maxDistance + 1);
+    return { player, kind: "fuzzy", score };
+  }
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+/* Edit distance where swapping two adjacent letters counts as one typo. */
+function editDistance(a: string, b: string) {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
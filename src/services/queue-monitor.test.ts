@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import type { LogsAPI } from "../endpoints/logs";
+import type { PlayersAPI } from "../endpoints/players";
+import { createMockServer } from "../testing";
+import { JoinLogEntry } from "../types/responses";
+import { VirtualClock } from "../utils/clock";
+import { QueueMonitor, type QueueMonitorOptions } from "./queue-monitor";
+
+function setup(options: Omit<QueueMonitorOptions, "clock"> = {}) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const monitor = new QueueMonitor({} as PlayersAPI, {} as LogsAPI, {
+    ...options,
+    clock,
+  });
+  const events: unknown[][] = [];
+  monitor
+    .on("enqueued", (entry) =>
+      events.push(["enqueued", entry.UserId, entry.position])
+    )
+    .on("dequeued", (entry) =>
+      events.push(["dequeued", entry.UserId, entry.position])
+    )
+    .on("moved", (entry, previous) =>
+      events.push(["moved", entry.UserId, entry.position, previous])
+    )
+    .on("priority", (entry) =>
+      events.push(["priority", entry.UserId, entry.position])
+    )
+    .on("threshold", (crossing) =>
+      events.push(["threshold", crossing.direction, crossing.length])
+    );
+  return { clock, monitor, events };
+}
+
+const leave = (userId: number, Timestamp: number) =>
+  JoinLogEntry.parse({
+    Player: `p${userId}:${userId}`,
+    Join: false,
+    Timestamp,
+  });
+
+describe("QueueMonitor", () => {
+  it("emits who joined, left and moved in the queue", () => {
+    const { monitor, events } = setup();
+
+    monitor.update([1, 2, 3]);
+    events.length = 0;
+    monitor.update([2, 3, 4]);
+
+    assert.deepEqual(events, [
+      ["moved", "2", 1, 2],
+      ["moved", "3", 2, 3],
+      ["enqueued", "4", 3],
+      ["dequeued", "1", 1],
+    ]);
+  });
+
+  it("flags priority members once and tracks threshold crossings", () => {
+    const { monitor, events } = setup({
+      thresholds: [2],
+      whitelist: [2],
+      roles: { "3": "Staff" },
+    });
+
+    monitor.update([1, 2, 3]);
+    monitor.update([2, 3]);
+    monitor.update([3]);
+
+    assert.deepEqual(
+      events.filter(([event]) => event === "priority" || event === "threshold"),
+      [
+        ["priority", "2", 2],
+        ["priority", "3", 3],
+        ["threshold", "up", 3],
+        ["threshold", "down", 1],
+      ]
+    );
+    assert.deepEqual(
+      monitor.waitingPriority().map((entry) => entry.priority),
+      ["Staff"]
+    );
+  });
+
+  it("estimates waits from the leave rate in the join logs", () => {
+    const { clock, monitor } = setup({ rateWindowMs: 10 * 60_000 });
+    const now = clock.now() / 1000;
+
+    // Two leaves within the window, one too old to count.
+    const state = monitor.update(
+      [1, 2],
+      [leave(5, now - 60), leave(6, now - 120), leave(7, now - 3600)]
+    );
+
+    assert.equal(state.leavesPerMinute, 0.2);
+    assert.deepEqual(
+      state.entries.map((entry) => entry.estimatedWaitMs),
+      [300_000, 600_000]
+    );
+    // Without join logs the previous rate is kept.
+    assert.equal(monitor.update([2]).entries[0].estimatedWaitMs, 300_000);
+  });
+
+  it("polls on its interval until stopped", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const mock = createMockServer({
+      serverKey: "key",
+      now: () => clock.now(),
+      rateLimit: false,
+    });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+    const monitor = new QueueMonitor(api.players, api.logs, {
+      estimateWait: false,
+      clock,
+    });
+    const polls = () =>
+      mock.requests.filter((request) => request.path === "/v1/server/queue")
+        .length;
+
+    const lengths: number[] = [];
+    monitor.on("update", (state) => lengths.push(state.length));
+
+    monitor.start();
+    await clock.advance(1000);
+    mock.enqueue(1);
+    await clock.advance(30_000);
+    monitor.stop();
+    await clock.advance(120_000);
+
+    assert.deepEqual(lengths, [0, 1]);
+    assert.equal(polls(), 2);
+    assert.equal(monitor.running, false);
+  });
+});
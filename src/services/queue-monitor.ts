@@ -0,0 +1,245 @@
+import { EventEmitter } from "node:events";
+import { LogsAPI } from "../endpoints/logs";
+import { PlayersAPI } from "../endpoints/players";
+import type { TJoinLogEntry, TQueueResponse } from "../types/responses";
+import { type Clock, type ClockTimer, systemClock } from "../utils/clock";
+
+export type QueueEntry = {
+  UserId: string;
+  /** 1-based; 1 is next in line. */
+  position: number;
+  /** When the player was first seen in the queue, in ms. */
+  firstSeen: number;
+  /** Time until the player gets in at the current leave rate. */
+  estimatedWaitMs?: number;
+  /** Role from `roles`, `"whitelist"`, or missing for everyone else. */
+  priority?: string;
+};
+
+export type QueueState = {
+  /** When the queue was observed, in ms. */
+  at: number;
+  length: number;
+  entries: QueueEntry[];
+  /** Players leaving the server per minute over `rateWindowMs`. */
+  leavesPerMinute?: number;
+};
+
+export type QueueThresholdCrossing = {
+  threshold: number;
+  /** `up` when the queue grew to `threshold` or beyond, `down` when it shrank below. */
+  direction: "up" | "down";
+  length: number;
+};
+
+export type QueueMonitorOptions = {
+  /** Time between polls in ms. Defaults to 30s. */
+  intervalMs?: number;
+  /** Queue lengths that emit `threshold` when crossed, e.g. `[1, 10]`. */
+  thresholds?: number[];
+  /** User IDs that count as priority members. */
+  whitelist?: Iterable<string | number>;
+  /** User ID -> role name (e.g. `"Donator"`, `"Staff"`) for priority members. */
+  roles?: Record<string, string>;
+  /** How far back join logs are used to estimate the leave rate. Defaults to 15 min. */
+  rateWindowMs?: number;
+  /** Fetch join logs for wait estimates on every poll. Defaults to `true`. */
+  estimateWait?: boolean;
+  clock?: Clock;
+};
+
+export type QueueMonitorEvents = {
+  update: [state: QueueState];
+  enqueued: [entry: QueueEntry];
+  /** The player left the queue, either into the server or by giving up. */
+  dequeued: [entry: QueueEntry];
+  moved: [entry: QueueEntry, previous: number];
+  /** A priority member was seen waiting for the first time. */
+  priority: [entry: QueueEntry];
+  threshold: [crossing: QueueThresholdCrossing];
+  error: [error: unknown];
+};
+
+/* Monitoring is background work and should yield to requests made for users. */
+const POLL = { priority: "low" } as const;
+
+/**
+ * Polls `PlayersAPI.queue()` and tracks who is waiting: position changes,
+ * estimated wait times from the leave rate in the join logs, priority members
+ * and queue lengths crossing configured thresholds.
+ */
+export class QueueMonitor extends EventEmitter<QueueMonitorEvents> {
+  private readonly intervalMs: number;
+  private readonly thresholds: number[];
+  private readonly whitelist: Set<string>;
+  private readonly roles: Record<string, string>;
+  private readonly rateWindowMs: number;
+  private readonly estimateWait: boolean;
+  private readonly clock: Clock;
+  private entries = new Map<string, QueueEntry>();
+  private length = 0;
+  private leavesPerMinute?: number;
+  private timer?: ClockTimer;
+  private generation = 0;
+  private active = false;
+
+  constructor(
+    private players: PlayersAPI,
+    private logsApi: LogsAPI,
+    options: QueueMonitorOptions = {}
+  ) {
+    super();
+    this.intervalMs = options.intervalMs ?? 30_000;
+    this.thresholds = [...(options.thresholds ?? [])].sort((a, b) => a - b);
+    this.whitelist = new Set(Array.from(options.whitelist ?? [], String));
+    this.roles = options.roles ?? {};
+    this.rateWindowMs = options.rateWindowMs ?? 15 * 60_000;
+    this.estimateWait = options.estimateWait ?? true;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get running() {
+    return this.active;
+  }
+
+  /** Polls now and then every `intervalMs` until `stop()`. */
+  start() {
+    if (this.active) {
+      return this;
+    }
+    this.active = true;
+    this.loop(++this.generation, 0);
+    return this;
+  }
+
+  stop() {
+    this.active = false;
+    this.generation++;
+    this.clock.clearTimeout(this.timer);
+    this.timer = undefined;
+    return this;
+  }
+
+  /** Fetches the queue (and join logs unless `estimateWait` is off) once. */
+  async poll() {
+    const [queue, joins] = await Promise.all([
+      this.players.queue(POLL),
+      this.estimateWait ? this.logsApi.joins(POLL) : undefined,
+    ]);
+    return this.update(queue, joins);
+  }
+
+  /**
+   * Applies a queue snapshot and emits what changed. Pass the join logs to
+   * refresh the leave rate; otherwise the previous rate is kept. The first
+   * snapshot counts as growing from an empty queue.
+   */
+  update(queue: TQueueResponse, joins?: TJoinLogEntry[]): QueueState {
+    const now = this.clock.now();
+    if (joins) this.leavesPerMinute = this.leaveRate(joins, now);
+
+    const previous = this.entries;
+    const next = new Map<string, QueueEntry>();
+    queue.forEach((id, index) => {
+      const UserId = String(id);
+      const position = index + 1;
+      const known = previous.get(UserId);
+      const entry: QueueEntry = {
+        UserId,
+        position,
+        firstSeen: known?.firstSeen ?? now,
+        estimatedWaitMs: this.estimate(position),
+        priority: this.priorityOf(UserId),
+      };
+      next.set(UserId, entry);
+
+      if (!known) {
+        this.emit("enqueued", entry);
+        if (entry.priority) this.emit("priority", entry);
+      } else if (known.position !== position) {
+        this.emit("moved", entry, known.position);
+      }
+    });
+    for (const [id, entry] of previous) {
+      if (!next.has(id)) this.emit("dequeued", entry);
+    }
+
+    const before = this.length;
+    this.entries = next;
+    this.length = next.size;
+    for (const threshold of this.thresholds) {
+      if (before < threshold && this.length >= threshold) {
+        this.emit("threshold", {
+          threshold,
+          direction: "up",
+          length: this.length,
+        });
+      } else if (before >= threshold && this.length < threshold) {
+        this.emit("threshold", {
+          threshold,
+          direction: "down",
+          length: this.length,
+        });
+      }
+    }
+
+    const state = this.state(now);
+    this.emit("update", state);
+    return state;
+  }
+
+  /** The last observed queue. */
+  state(at = this.clock.now()): QueueState {
+    return {
+      at,
+      length: this.length,
+      entries: [...this.entries.values()],
+      leavesPerMinute: this.leavesPerMinute,
+    };
+  }
+
+  /** The queue entry of `userId`, if waiting. */
+  positionOf(userId: string | number) {
+    return this.entries.get(String(userId));
+  }
+
+  /** Priority members currently waiting, front of the queue first. */
+  waitingPriority() {
+    return [...this.entries.values()].filter((entry) => entry.priority);
+  }
+
+  private priorityOf(userId: string) {
+    if (Object.hasOwn(this.roles, userId)) return this.roles[userId];
+    return this.whitelist.has(userId) ? "whitelist" : undefined;
+  }
+
+  /*
+   * Every player leaving a full server lets the next one in, so the leave
+   * rate is the rate the queue moves at.
+   */
+  private leaveRate(joins: TJoinLogEntry[], now: number) {
+    const since = (now - this.rateWindowMs) / 1000;
+    const leaves = joins.filter(
+      (entry) => !entry.Join && entry.Timestamp >= since
+    ).length;
+    return leaves / (this.rateWindowMs / 60_000);
+  }
+
+  private estimate(position: number) {
+    if (!this.leavesPerMinute) return undefined;
+    return Math.round((position / this.leavesPerMinute) * 60_000);
+  }
+
+  private loop(generation: number, delay: number) {
+    this.timer = this.clock.setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        if (this.listenerCount("error") > 0) this.emit("error", error);
+      }
+      if (this.active && generation === this.generation) {
+        this.loop(generation, this.intervalMs);
+      }
+    }, delay);
+  }
+}
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import type { ServerAPI } from "../endpoints/server";
+import { createMockServer } from "../testing";
+import {
+  CommandLogEntry,
+  PlayerSchema,
+  REMOTE_SERVER,
+  type TPlayer,
+} from "../types/responses";
+import { VirtualClock } from "../utils/clock";
+import type { EventStream } from "./events";
+import { type Rule, RulesEngine } from "./rules";
+import { SnapshotDiffer } from "./snapshots";
+
+const player = (Player: string, Team: string, Callsign?: string): TPlayer =>
+  PlayerSchema.parse({ Player, Permission: "Normal", Team, Callsign });
+
+const callsigns: Rule = {
+  name: "police-callsigns",
+  when: { type: "callsign", team: "Police", pattern: /^\d-\d{2}$/g },
+  then: { type: "flag" },
+  cooldownMs: 0,
+};
+
+function setup(rules: Rule[]) {
+  const clock = new VirtualClock(1_700_000_000_000);
+  const engine = new RulesEngine({} as ServerAPI, rules, { clock });
+  return { clock, engine };
+}
+
+/* Lets the fire-and-forget evaluations of `attach()` finish. */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RulesEngine", () => {
+  it("matches global patterns the same way every time", async () => {
+    const { engine } = setup([callsigns]);
+
+    for (let i = 0; i < 3; i++) {
+      await engine.players([player("john:1", "Police", "1-23")]);
+    }
+    await engine.players([player("jane:2", "Police", "bad")]);
+
+    assert.deepEqual(
+      engine.auditLog().map((entry) => entry.player.Username),
+      ["jane"]
+    );
+  });
+
+  it("evaluates joins, team and callsign changes from a SnapshotDiffer", async () => {
+    const { engine } = setup([callsigns]);
+    const stream = new EventEmitter() as unknown as EventStream;
+    const differ = new SnapshotDiffer();
+    engine.attach(stream, differ);
+
+    differ.players([player("john:1", "Civilian")]);
+    differ.players([
+      player("john:1", "Police", "1-23"),
+      player("jane:2", "Police", "bad"),
+    ]);
+    await flush();
+    differ.players([
+      player("john:1", "Police", "cop"),
+      player("jane:2", "Police", "bad"),
+    ]);
+    await flush();
+
+    assert.deepEqual(
+      engine.auditLog().map((entry) => entry.player.Username),
+      ["jane", "john"]
+    );
+  });
+
+  it("counts identical kills within the same second from the stream", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const mock = createMockServer({
+      serverKey: "key",
+      now: () => clock.now(),
+      rateLimit: false,
+    });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+    const engine = new RulesEngine(
+      api.server,
+      [
+        {
+          name: "rdm",
+          when: { type: "killRate", kills: 2, withinMs: 60_000 },
+          then: { type: "flag" },
+        },
+      ],
+      { clock }
+    );
+    engine.attach(api.events);
+    mock.join({ name: "john", userId: 1 }).join({ name: "jane", userId: 2 });
+    const poll = async () => {
+      await clock.advance(1000);
+      await api.events.poll("kills");
+    };
+
+    await poll();
+    mock.kill(1, 2).kill(1, 2).kill(1, 2);
+    await poll();
+    await flush();
+
+    assert.deepEqual(
+      engine.auditLog().map((entry) => [entry.player.Username, entry.detail]),
+      [["john", "3 kills within 1 min"]]
+    );
+  });
+
+  it("ignores commands sent through the API", async () => {
+    const { engine } = setup([
+      {
+        name: "warnings",
+        when: { type: "commandText", words: ["rules"] },
+        then: { type: "flag" },
+      },
+    ]);
+    const command = (Player: string) =>
+      CommandLogEntry.parse({
+        Player,
+        Timestamp: 1_700_000_000,
+        Command: ":pm john Please read the rules",
+      });
+
+    await engine.process({ kind: "command", entry: command(REMOTE_SERVER) });
+    await engine.process({ kind: "command", entry: command("jane:2") });
+
+    assert.deepEqual(
+      engine.auditLog().map((entry) => entry.player.Username),
+      ["jane"]
+    );
+  });
+});
@@ -0,0 +1,426 @@
+import { EventEmitter } from "node:events";
+import { ServerAPI } from "../endpoints/server";
+import type {
+  TCommandLogEntry,
+  TJoinLogEntry,
+  TKillLogEntry,
+  TPlayer,
+  TServerStatus,
+} from "../types/responses";
+import { type Clock, systemClock } from "../utils/clock";
+import { parseCommand } from "../utils/command-parser";
+import { Commands } from "../utils/commands";
+import type { EventStream } from "./events";
+import type { PlayerSnapshotChange, SnapshotDiffer } from "./snapshots";
+
+/** A piece of live data the rules are evaluated against. */
+export type RuleEvent =
+  | { kind: "kill"; entry: TKillLogEntry }
+  /** Joins and leaves; check `entry.Join`. */
+  | { kind: "join"; entry: TJoinLogEntry }
+  | { kind: "player"; player: TPlayer }
+  | { kind: "command"; entry: TCommandLogEntry };
+
+export type RulePlayer = { Username: string; UserId: string };
+
+/** The player a rule fired for, plus a human readable explanation. */
+export type RuleMatch = { player: RulePlayer; detail?: string };
+
+export type RuleContext = {
+  /** Latest status passed to `observeStatus()`, e.g. for `AccVerifiedReq`. */
+  status?: TServerStatus;
+  /** Current time in ms. */
+  now: number;
+};
+
+export type RuleCondition =
+  /** The killer got more than `kills` kills within `withinMs`. */
+  | { type: "killRate"; kills: number; withinMs: number }
+  /** A player on `team` has a callsign that does not match `pattern`. */
+  | { type: "callsign"; team?: string | RegExp; pattern: RegExp }
+  /**
+   * A player joined. The API does not expose account verification per player,
+   * so combine `filter` with `ctx.status.AccVerifiedReq` for such rules.
+   */
+  | {
+      type: "join";
+      filter?: (entry: TJoinLogEntry, ctx: RuleContext) => boolean;
+    }
+  /**
+   * A logged command contains one of `words` (whole words, case-insensitive)
+   * or matches `pattern`. Only the free text of `:m`, `:h`, `:pm` and kick or
+   * ban reasons is checked unless `wholeCommand` is set. Commands sent
+   * through the API, such as this engine's own `:pm` warnings, are skipped.
+   */
+  | {
+      type: "commandText";
+      words?: string[];
+      pattern?: RegExp;
+      wholeCommand?: boolean;
+    }
+  | {
+      type: "custom";
+      test: (
+        event: RuleEvent,
+        ctx: RuleContext
+      ) => RuleMatch | null | undefined | false;
+    };
+
+export type RuleAction =
+  | { type: "kick"; reason?: string }
+  | { type: "ban"; reason?: string }
+  /** `{Username}` and `{detail}` are replaced in the message. */
+  | { type: "pm"; message: string }
+  | { type: "command"; build: (match: RuleMatch) => string }
+  /** Only records the match in the audit log. */
+  | { type: "log" }
+  /** Records the match and emits `flag` for human review. */
+  | { type: "flag" };
+
+export type Rule = {
+  name: string;
+  when: RuleCondition;
+  then: RuleAction | RuleAction[];
+  /** Minimum time between firings for the same player. Defaults to 60s. */
+  cooldownMs?: number;
+  /** Record commands in the audit log without sending them. */
+  dryRun?: boolean;
+  enabled?: boolean;
+};
+
+export type RuleAuditEntry = {
+  rule: string;
+  action: RuleAction["type"];
+  player: RulePlayer;
+  detail?: string;
+  /** The command sent (or that would have been sent in dry-run mode). */
+  command?: string;
+  outcome: "sent" | "dry-run" | "recorded" | "failed";
+  error?: unknown;
+  /** When the rule fired, in ms. */
+  at: number;
+};
+
+export type RulesEngineOptions = {
+  /** Dry-run every rule. Defaults to `false`. */
+  dryRun?: boolean;
+  /** Audit entries kept in memory. Defaults to 1000. */
+  maxAuditEntries?: number;
+  clock?: Clock;
+};
+
+export type RulesEngineEvents = {
+  triggered: [entry: RuleAuditEntry];
+  flag: [entry: RuleAuditEntry];
+  error: [error: unknown, rule: string];
+};
+
+/* Player changes from a `SnapshotDiffer` that rules are evaluated against. */
+const PLAYER_CHANGES = new Set<PlayerSnapshotChange["type"]>([
+  "join",
+  "team",
+  "callsign",
+]);
+
+/**
+ * Evaluates declarative moderation rules against kills, joins, players and
+ * commands and fires their actions through `ServerAPI.command`. Every action,
+ * including dry runs and failures, lands in the audit log.
+ */
+export class RulesEngine extends EventEmitter<RulesEngineEvents> {
+  private readonly rules = new Map<string, Rule>();
+  private readonly dryRun: boolean;
+  private readonly maxAuditEntries: number;
+  private readonly clock: Clock;
+  private readonly audit: RuleAuditEntry[] = [];
+  private readonly cooldowns = new Map<string, number>();
+  private readonly kills = new Map<string, number[]>();
+  private status?: TServerStatus;
+
+  constructor(
+    private server: ServerAPI,
+    rules: Rule[] = [],
+    options: RulesEngineOptions = {}
+  ) {
+    super();
+    this.dryRun = options.dryRun ?? false;
+    this.maxAuditEntries = options.maxAuditEntries ?? 1000;
+    this.clock = options.clock ?? systemClock;
+    for (const rule of rules) this.add(rule);
+  }
+
+  /** Adds or replaces (by name) a rule. */
+  add(rule: Rule) {
+    this.rules.set(rule.name, rule);
+    return this;
+  }
+
+  remove(name: string) {
+    return this.rules.delete(name);
+  }
+
+  /** Makes `status` available to rules as `ctx.status`. */
+  observeStatus(status: TServerStatus) {
+    this.status = status;
+  }
+
+  /** Evaluates every rule against a fresh players list. */
+  async players(players: TPlayer[]) {
+    const fired: RuleAuditEntry[] = [];
+    for (const player of players) {
+      fired.push(...(await this.process({ kind: "player", player })));
+    }
+    return fired;
+  }
+
+  /**
+   * Evaluates every enabled rule against `event` and runs the actions of the
+   * ones that match. Every event counts: identical kills within the same
+   * second are separate kills, so feed each log entry exactly once, as
+   * `attach()` does.
+   */
+  async process(event: RuleEvent): Promise<RuleAuditEntry[]> {
+    const ctx: RuleContext = { status: this.status, now: this.clock.now() };
+    const fired: RuleAuditEntry[] = [];
+
+    for (const rule of this.rules.values()) {
+      if (rule.enabled === false) continue;
+      let match: RuleMatch | null | undefined | false;
+      try {
+        match = this.evaluate(rule, event, ctx);
+      } catch (error) {
+        this.report(error, rule.name);
+        continue;
+      }
+      if (!match) continue;
+
+      const key = `${rule.name}:${match.player.UserId}`;
+      const until = this.cooldowns.get(key);
+      if (until !== undefined && until > ctx.now) continue;
+      this.cooldowns.set(key, ctx.now + (rule.cooldownMs ?? 60_000));
+      // Start counting afresh so old kills can't re-trigger after the cooldown.
+      this.kills.delete(key);
+
+      const actions = Array.isArray(rule.then) ? rule.then : [rule.then];
+      for (const action of actions) {
+        fired.push(await this.execute(rule, action, match, ctx.now));
+      }
+    }
+    return fired;
+  }
+
+  /**
+   * Evaluates rules against kills, joins, leaves, commands and team changes
+   * from an `EventStream`. With a `SnapshotDiffer`, players that join or
+   * change team or callsign in its players diffs are evaluated instead of the
+   * stream's team changes. Returns a function that detaches the listeners.
+   */
+  attach(stream: EventStream, snapshots?: SnapshotDiffer) {
+    const run = (event: RuleEvent) => {
+      this.process(event).catch((error) => this.report(error, "*"));
+    };
+    const onKill = (entry: TKillLogEntry) => run({ kind: "kill", entry });
+    const onJoin = (entry: TJoinLogEntry) => run({ kind: "join", entry });
+    const onCommand = (entry: TCommandLogEntry) =>
+      run({ kind: "command", entry });
+    const onTeam = ({ player }: { player: TPlayer }) =>
+      run({ kind: "player", player });
+    const onPlayers = (changes: PlayerSnapshotChange[]) => {
+      for (const change of changes) {
+        if (PLAYER_CHANGES.has(change.type)) {
+          run({ kind: "player", player: change.player });
+        }
+      }
+    };
+
+    stream.on("kill", onKill);
+    stream.on("playerJoin", onJoin);
+    stream.on("playerLeave", onJoin);
+    stream.on("command", onCommand);
+    if (snapshots) {
+      snapshots.on("players", onPlayers);
+    } else {
+      stream.on("teamChange", onTeam);
+    }
+    return () => {
+      stream.off("kill", onKill);
+      stream.off("playerJoin", onJoin);
+      stream.off("playerLeave", onJoin);
+      stream.off("command", onCommand);
+      stream.off("teamChange", onTeam);
+      snapshots?.off("players", onPlayers);
+    };
+  }
+
+  /** Audit entries, oldest first. */
+  auditLog(): RuleAuditEntry[] {
+    return [...this.audit];
+  }
+
+  private evaluate(
+    rule: Rule,
+    event: RuleEvent,
+    ctx: RuleContext
+  ): RuleMatch | null | undefined | false {
+    const condition = rule.when;
+    switch (condition.type) {
+      case "custom":
+        return condition.test(event, ctx);
+
+      case "killRate": {
+        if (event.kind !== "kill") return null;
+        const killer = event.entry.Killer;
+        const key = `${rule.name}:${killer.UserId}`;
+        const at = event.entry.Timestamp * 1000;
+        const recent = (this.kills.get(key) ?? []).filter(
+          (time) => time > at - condition.withinMs
+        );
+        recent.push(at);
+        this.kills.set(key, recent);
+        return recent.length > condition.kills
+          ? {
+              player: killer,
+              detail: `${recent.length} kills within ${Math.round(condition.withinMs / 60_000)} min`,
+            }
+          : null;
+      }
+
+      case "callsign": {
+        if (event.kind !== "player") return null;
+        const { player } = event;
+        const team = condition.team;
+        const onTeam =
+          team === undefined ||
+          (typeof team === "string"
+            ? player.Team === team
+            : search(team, player.Team ?? ""));
+        if (!onTeam || search(condition.pattern, player.Callsign ?? "")) {
+          return null;
+        }
+        return {
+          player,
+          detail: `Callsign "${player.Callsign ?? ""}" on team ${player.Team ?? "none"}`,
+        };
+      }
+
+      case "join":
+        if (event.kind !== "join" || !event.entry.Join) return null;
+        if (condition.filter && !condition.filter(event.entry, ctx)) {
+          return null;
+        }
+        return { player: event.entry, detail: "Joined" };
+
+      case "commandText": {
+        if (event.kind !== "command") return null;
+        // Commands sent through the API (including this engine's) have no
+        // player to act on.
+        const { Username, UserId } = event.entry;
+        if (UserId === undefined) return null;
+        const player = { Username, UserId };
+        const text = condition.wholeCommand
+          ? event.entry.Command
+          : freeText(event.entry.Command);
+        if (!text) return null;
+        const word = condition.words?.find((candidate) =>
+          new RegExp(`\\b${escapeRegExp(candidate)}\\b`, "i").test(text)
+        );
+        if (word) {
+          return { player, detail: `Used "${word}"` };
+        }
+        const found = condition.pattern && search(condition.pattern, text);
+        return found ? { player, detail: `Matched "${found[0]}"` } : null;
+      }
+    }
+  }
+
+  private async execute(
+    rule: Rule,
+    action: RuleAction,
+    match: RuleMatch,
+    at: number
+  ) {
+    const entry: RuleAuditEntry = {
+      rule: rule.name,
+      action: action.type,
+      player: { Username: match.player.Username, UserId: match.player.UserId },
+      detail: match.detail,
+      outcome: "recorded",
+      at,
+    };
+
+    try {
+      entry.command = commandFor(action, match);
+      if (entry.command !== undefined) {
+        if (rule.dryRun ?? this.dryRun) {
+          entry.outcome = "dry-run";
+        } else {
+          await this.server.command(entry.command, { priority: "high" });
+          entry.outcome = "sent";
+        }
+      }
+    } catch (error) {
+      entry.outcome = "failed";
+      entry.error = error;
+    }
+
+    this.audit.push(entry);
+    if (this.audit.length > this.maxAuditEntries) this.audit.shift();
+    this.emit("triggered", entry);
+    if (action.type === "flag") this.emit("flag", entry);
+    return entry;
+  }
+
+  private report(error: unknown, rule: string) {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error, rule);
+    }
+  }
+}
+
+/* `exec` that ignores the `lastIndex` left behind by `g` and `y` patterns. */
+function search(pattern: RegExp, text: string) {
+  pattern.lastIndex = 0;
+  return pattern.exec(text);
+}
+
+function commandFor(action: RuleAction, match: RuleMatch) {
+  const target = match.player.Username;
+  switch (action.type) {
+    case "kick":
+      return Commands.kick(target, action.reason);
+    case "ban":
+      return Commands.ban(target, action.reason);
+    case "pm":
+      return Commands.pm(
+        target,
+        action.message
+          .replace(/\{Username\}/g, target)
+          .replace(/\{detail\}/g, match.detail ?? "")
+      );
+    case "command":
+      return action.build(match);
+    case "log":
+    case "flag":
+      return undefined;
+  }
+}
+
+/* The user-written part of a command: messages and kick/ban reasons. */
+function freeText(command: string) {
+  const parsed = parseCommand(command);
+  switch (parsed.action) {
+    case "message":
+    case "hint":
+    case "pm":
+      return parsed.message;
+    case "kick":
+    case "ban":
+      return parsed.reason;
+    default:
+      return undefined;
+  }
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
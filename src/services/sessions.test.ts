@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer } from "../testing";
+import { JoinLogEntry, type TJoinLogEntry } from "../types/responses";
+import { VirtualClock } from "../utils/clock";
+import { SessionTracker } from "./sessions";
+
+const entry = (Join: boolean, Timestamp: number): TJoinLogEntry =>
+  JoinLogEntry.parse({ Player: "john:1", Join, Timestamp });
+
+/* Join at 100, then leave and rejoin twice within second 200. */
+const history = [
+  entry(true, 100),
+  entry(false, 200),
+  entry(true, 200),
+  entry(false, 200),
+  entry(true, 200),
+];
+/* As `LogsAPI.joins()` lists it: newest first. */
+const log = [...history].reverse();
+
+const clock = new VirtualClock(300_000);
+
+describe("SessionTracker", () => {
+  it("keeps repeated leaves and rejoins within the same second", () => {
+    const tracker = SessionTracker.fromLogs(log, { clock });
+
+    assert.deepEqual(
+      tracker.sessions().map(({ start, end }) => [start, end]),
+      [
+        [100, 200],
+        [200, 200],
+        [200, null],
+      ]
+    );
+  });
+
+  it("skips entries it has seen when logs overlap", () => {
+    const tracker = new SessionTracker({ clock });
+    tracker.ingest(log.slice(2));
+    tracker.ingest(log);
+    tracker.ingest(log);
+
+    assert.equal(tracker.sessions().length, 3);
+  });
+
+  it("applies every entry emitted by an attached stream", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const mock = createMockServer({
+      serverKey: "key",
+      now: () => clock.now(),
+      rateLimit: false,
+    });
+    const api = new PRC({
+      serverKey: "key",
+      fetch: mock.fetch,
+      clock,
+      events: { replay: true },
+    });
+    const tracker = new SessionTracker({ clock });
+    tracker.attach(api.events);
+    const poll = async () => {
+      await clock.advance(1000);
+      await api.events.poll("joins");
+    };
+
+    mock.join({ name: "john", userId: 1 });
+    await poll();
+    mock.leave(1).join({ name: "john", userId: 1 });
+    mock.leave(1).join({ name: "john", userId: 1 });
+    await poll();
+    // Overlapping history changes nothing.
+    await clock.advance(1000);
+    tracker.ingest(await api.logs.joins());
+
+    const [first, second, third] = tracker.sessions();
+    assert.equal(tracker.sessions().length, 3);
+    assert.equal(first.end, second.start);
+    assert.equal(second.end, third.start);
+    assert.equal(third.end, null);
+  });
+});
@@ -0,0 +1,326 @@
+import { isServerOfflineError } from "../core/errors";
+import type {
+  TJoinLogEntry,
+  TPlayersResponse,
+  TServerStatus,
+} from "../types/responses";
+import { type Clock, systemClock } from "../utils/clock";
+import type { EventStream } from "./events";
+
+/**
+ * `leave` comes from the join log. `shutdown` closes every open session when
+ * the server is empty or offline, and `inferred` is used when a player joined
+ * again or vanished from the players list without a leave entry.
+ */
+export type SessionEndReason = "leave" | "shutdown" | "inferred";
+
+/** Timestamps are Unix seconds, like the PRC logs. */
+export type PlayerSession = {
+  UserId: string;
+  Username: string;
+  start: number;
+  /** `null` while the player is still in the server. */
+  end: number | null;
+  endReason?: SessionEndReason;
+};
+
+export type PlayerPlaytime = {
+  UserId: string;
+  Username: string;
+  /** Total time in the server in seconds, clipped to the requested range. */
+  seconds: number;
+  sessions: number;
+};
+
+export type SessionRange = {
+  /** Unix seconds, inclusive. Defaults to the first session start. */
+  from?: number;
+  /** Unix seconds, exclusive. Defaults to now. */
+  to?: number;
+};
+
+export type PlayerCountBucket = {
+  start: number;
+  end: number;
+  /** Distinct players in the server at any point during the bucket. */
+  players: number;
+  /** Highest number of players in the server at the same time. */
+  peak: number;
+};
+
+export type SessionTrackerOptions = {
+  clock?: Clock;
+};
+
+type SessionFilter = SessionRange & { UserId?: string | number };
+
+/**
+ * Pairs join and leave log entries into per-player sessions. Feed it
+ * overlapping join logs as often as you like (`ingest()` skips entries it has
+ * already seen), or build one from a historical log with
+ * `SessionTracker.fromLogs()`.
+ */
+export class SessionTracker {
+  private readonly clock: Clock;
+  private readonly closed: PlayerSession[] = [];
+  private readonly openSessions = new Map<string, PlayerSession>();
+  /* Entries applied at the latest timestamp, counted per key. */
+  private cursor = { timestamp: 0, counts: new Map<string, number>() };
+
+  constructor(options: SessionTrackerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  static fromLogs(
+    entries: TJoinLogEntry[],
+    options: SessionTrackerOptions = {}
+  ) {
+    const tracker = new SessionTracker(options);
+    tracker.ingest(entries);
+    return tracker;
+  }
+
+  /**
+   * Applies join log entries, listed newest first as `LogsAPI.joins()`
+   * returns them, in timestamp order. Entries older than the last one applied
+   * are ignored, as are leaves without a known join (for example at the start
+   * of a truncated log).
+   */
+  ingest(entries: Iterable<TJoinLogEntry>) {
+    // Reversed before the stable sort so a same-second leave and rejoin keep
+    // their order.
+    const sorted = [...entries]
+      .reverse()
+      .sort((a, b) => a.Timestamp - b.Timestamp);
+    /*
+      A player can join, leave and join again within one second, so identical
+      entries are told apart by how often they occur in the log rather than
+      dropped as duplicates.
+    */
+    const occurrences = new Map<string, number>();
+    for (const entry of sorted) {
+      if (entry.Timestamp < this.cursor.timestamp) continue;
+      const key = entryKey(entry);
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+      if (
+        entry.Timestamp === this.cursor.timestamp &&
+        occurrence <= (this.cursor.counts.get(key) ?? 0)
+      ) {
+        continue;
+      }
+      this.accept(entry);
+    }
+    return this;
+  }
+
+  /**
+   * Reconciles open sessions with a server status. An empty server closes
+   * every open session.
+   */
+  observeStatus(status: TServerStatus, at = this.nowSeconds()) {
+    if (status.CurrentPlayers === 0) this.shutdown(at);
+  }
+
+  /** Closes open sessions of players missing from a fresh players list. */
+  observePlayers(players: TPlayersResponse, at = this.nowSeconds()) {
+    const present = new Set(players.map((player) => player.UserId));
+    for (const session of [...this.openSessions.values()]) {
+      if (!present.has(session.UserId)) this.close(session, at, "inferred");
+    }
+  }
+
+  /** Closes every open session when `error` says the server is offline. */
+  observeError(error: unknown, at = this.nowSeconds()) {
+    if (isServerOfflineError(error)) this.shutdown(at);
+  }
+
+  /** Closes every open session, e.g. after the server shut down. */
+  shutdown(at = this.nowSeconds()) {
+    for (const session of [...this.openSessions.values()]) {
+      this.close(session, at, "shutdown");
+    }
+  }
+
+  /**
+   * Keeps the tracker up to date from an `EventStream`: joins and leaves are
+   * applied as they arrive and `ServerOfflineError`s close open sessions.
+   * Returns a function that detaches the listeners.
+   */
+  attach(stream: EventStream) {
+    // The stream emits every log entry once, including each copy of an
+    // entry repeated within one second, so all of them are applied.
+    const onEntry = (entry: TJoinLogEntry) => {
+      if (entry.Timestamp >= this.cursor.timestamp) this.accept(entry);
+    };
+    const onError = (error: unknown) => this.observeError(error);
+    stream.on("playerJoin", onEntry);
+    stream.on("playerLeave", onEntry);
+    stream.on("error", onError);
+    return () => {
+      stream.off("playerJoin", onEntry);
+      stream.off("playerLeave", onEntry);
+      stream.off("error", onError);
+    };
+  }
+
+  /** Sessions that overlap the range, oldest first. */
+  sessions(filter: SessionFilter = {}): PlayerSession[] {
+    const id = filter.UserId != null ? String(filter.UserId) : undefined;
+    const to = filter.to ?? Infinity;
+    const from = filter.from ?? -Infinity;
+    return [...this.closed, ...this.openSessions.values()]
+      .filter(
+        (session) =>
+          (id === undefined || session.UserId === id) &&
+          session.start < to &&
+          (session.end ?? Infinity) > from
+      )
+      .sort((a, b) => a.start - b.start)
+      .map((session) => ({ ...session }));
+  }
+
+  /** Sessions of players currently in the server. */
+  online(): PlayerSession[] {
+    return [...this.openSessions.values()].map((session) => ({ ...session }));
+  }
+
+  /** Seconds `userId` spent in the server within the range. */
+  playtime(userId: string | number, range: SessionRange = {}) {
+    const { from, to } = this.bounds(range);
+    return this.sessions({ ...range, UserId: userId }).reduce(
+      (total, session) => total + this.overlap(session, from, to),
+      0
+    );
+  }
+
+  /** Playtime per player within the range, most active first. */
+  totals(range: SessionRange = {}): PlayerPlaytime[] {
+    const { from, to } = this.bounds(range);
+    const totals = new Map<string, PlayerPlaytime>();
+    for (const session of this.sessions(range)) {
+      const total = totals.get(session.UserId) ?? {
+        UserId: session.UserId,
+        Username: session.Username,
+        seconds: 0,
+        sessions: 0,
+      };
+      total.Username = session.Username;
+      total.seconds += this.overlap(session, from, to);
+      total.sessions++;
+      totals.set(session.UserId, total);
+    }
+    return [...totals.values()].sort((a, b) => b.seconds - a.seconds);
+  }
+
+  /** Most players in the server at once within the range, and when it first happened. */
+  peakConcurrency(range: SessionRange = {}) {
+    const { from, to } = this.bounds(range);
+    return this.peak(this.sessions(range), from, to);
+  }
+
+  /** Player counts in consecutive buckets of `bucketSeconds` across the range. */
+  buckets(bucketSeconds: number, range: SessionRange = {}) {
+    if (!(bucketSeconds > 0)) {
+      throw new RangeError("bucketSeconds must be a positive number");
+    }
+    const { from, to } = this.bounds(range);
+    const sessions = this.sessions({ from, to });
+    const buckets: PlayerCountBucket[] = [];
+
+    for (let start = from; start < to; start += bucketSeconds) {
+      const end = Math.min(start + bucketSeconds, to);
+      const inside = sessions.filter(
+        (session) => session.start < end && (session.end ?? to) > start
+      );
+      buckets.push({
+        start,
+        end,
+        players: new Set(inside.map((session) => session.UserId)).size,
+        peak: this.peak(inside, start, end).count,
+      });
+    }
+    return buckets;
+  }
+
+  reset() {
+    this.closed.length = 0;
+    this.openSessions.clear();
+    this.cursor = { timestamp: 0, counts: new Map() };
+  }
+
+  private accept(entry: TJoinLogEntry) {
+    if (entry.Timestamp !== this.cursor.timestamp) {
+      this.cursor = { timestamp: entry.Timestamp, counts: new Map() };
+    }
+    const key = entryKey(entry);
+    this.cursor.counts.set(key, (this.cursor.counts.get(key) ?? 0) + 1);
+    this.apply(entry);
+  }
+
+  private apply(entry: TJoinLogEntry) {
+    const open = this.openSessions.get(entry.UserId);
+    if (entry.Join) {
+      // A second join without a leave in between: the leave was lost.
+      if (open) this.close(open, entry.Timestamp, "inferred");
+      this.openSessions.set(entry.UserId, {
+        UserId: entry.UserId,
+        Username: entry.Username,
+        start: entry.Timestamp,
+        end: null,
+      });
+    } else if (open) {
+      this.close(open, entry.Timestamp, "leave");
+    }
+  }
+
+  private close(
+    session: PlayerSession,
+    at: number,
+    endReason: SessionEndReason
+  ) {
+    this.openSessions.delete(session.UserId);
+    this.closed.push({
+      ...session,
+      end: Math.max(at, session.start),
+      endReason,
+    });
+  }
+
+  private peak(sessions: PlayerSession[], from: number, to: number) {
+    // Leaves sort before joins at the same second so hand-overs don't overlap.
+    const edges = sessions
+      .flatMap((session) => [
+        { at: Math.max(session.start, from), delta: 1 },
+        { at: Math.min(session.end ?? to, to), delta: -1 },
+      ])
+      .sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+    let count = 0;
+    let best = { count: 0, at: from };
+    for (const edge of edges) {
+      count += edge.delta;
+      if (count > best.count) best = { count, at: edge.at };
+    }
+    return best;
+  }
+
+  private overlap(session: PlayerSession, from: number, to: number) {
+    const end = Math.min(session.end ?? to, to);
+    return Math.max(0, end - Math.max(session.start, from));
+  }
+
+  private bounds(range: SessionRange) {
+    const to = range.to ?? this.nowSeconds();
+    const first = this.sessions({ to })[0]?.start ?? to;
+    return { from: range.from ?? first, to };
+  }
+
+  private nowSeconds() {
+    return Math.floor(this.clock.now() / 1000);
+  }
+}
+
+function entryKey(entry: TJoinLogEntry) {
+  return `${entry.UserId}:${entry.Join}`;
+}
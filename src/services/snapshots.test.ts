@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { createMockServer, settle } from "../testing";
+import { PlayerSchema, type TPlayer } from "../types/responses";
+import { VirtualClock } from "../utils/clock";
+import {
+  diffBans,
+  diffPlayers,
+  type SnapshotChange,
+  SnapshotDiffer,
+} from "./snapshots";
+
+const player = (Player: string, Team: string, Callsign?: string): TPlayer =>
+  PlayerSchema.parse({ Player, Permission: "Normal", Team, Callsign });
+
+describe("diffPlayers", () => {
+  it("reports joins, leaves and changed fields by user ID", () => {
+    const changes = diffPlayers(
+      [player("john:1", "Civilian"), player("jane:2", "Police")],
+      [player("john:1", "Police", "1-23"), player("joe:3", "Fire")]
+    );
+
+    assert.deepEqual(
+      changes.map((change) => [change.type, change.player.Username]),
+      [
+        ["team", "john"],
+        ["callsign", "john"],
+        ["join", "joe"],
+        ["leave", "jane"],
+      ]
+    );
+  });
+
+  it("treats a null and a missing callsign alike", () => {
+    const before = PlayerSchema.parse({
+      Player: "john:1",
+      Permission: "Normal",
+      Team: "Police",
+      Callsign: null,
+    });
+
+    assert.deepEqual(diffPlayers([before], [player("john:1", "Police")]), []);
+  });
+});
+
+describe("diffBans", () => {
+  it("reports added and removed bans", () => {
+    assert.deepEqual(diffBans({ "1": "john" }, { "2": "jane" }), [
+      { source: "bans", type: "added", UserId: "2", Username: "jane" },
+      { source: "bans", type: "removed", UserId: "1", Username: "john" },
+    ]);
+  });
+});
+
+describe("SnapshotDiffer", () => {
+  it("uses the first snapshot of each kind as the baseline", () => {
+    const differ = new SnapshotDiffer();
+    const changes: SnapshotChange[] = [];
+    differ.on("change", (change) => changes.push(change));
+
+    assert.deepEqual(differ.players([player("john:1", "Civilian")]), []);
+    differ.players([]);
+    differ.reset("players");
+    differ.players([player("jane:2", "Police")]);
+
+    assert.deepEqual(
+      changes.map((change) => change.type),
+      ["leave"]
+    );
+  });
+
+  it("diffs responses through its hooks", async () => {
+    const clock = new VirtualClock(1_700_000_000_000);
+    const mock = createMockServer({
+      serverKey: "key",
+      now: () => clock.now(),
+      rateLimit: false,
+    });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch, clock });
+    const differ = new SnapshotDiffer();
+    api.http.use(differ.hooks());
+    const events: [string, string[]][] = [];
+    for (const source of ["players", "bans", "staff", "status"] as const) {
+      differ.on(source, (changes: SnapshotChange[]) =>
+        events.push([source, changes.map((change) => change.type)])
+      );
+    }
+    const poll = async () => {
+      await settle(clock, api.players.list());
+      await settle(clock, api.players.bans());
+      await settle(clock, api.players.staff());
+      await settle(clock, api.server.status());
+    };
+
+    await poll();
+    mock.join({ name: "john", userId: 1 }).ban(2, "jane");
+    mock.setStaff({ mods: { 3: "joe" } });
+    mock.maxPlayers = 20;
+    await poll();
+
+    assert.deepEqual(events, [
+      ["players", ["join"]],
+      ["bans", ["added"]],
+      ["staff", ["added"]],
+      ["status", ["changed"]],
+    ]);
+  });
+});
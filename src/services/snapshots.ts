@@ -0,0 +1,304 @@
+import { EventEmitter } from "node:events";
+import type { HttpClientHooks } from "../core/hooks";
+import type {
+  TBanEntry,
+  TPlayer,
+  TPlayersResponse,
+  TServerStatus,
+  TStaffResponse,
+} from "../types/responses";
+
+export type PlayerSnapshotChange =
+  | { source: "players"; type: "join" | "leave"; player: TPlayer }
+  | {
+      source: "players";
+      type: "team";
+      player: TPlayer;
+      previous: TPlayer["Team"];
+      current: TPlayer["Team"];
+    }
+  | {
+      source: "players";
+      type: "callsign";
+      player: TPlayer;
+      previous: TPlayer["Callsign"];
+      current: TPlayer["Callsign"];
+    }
+  | {
+      source: "players";
+      type: "permission";
+      player: TPlayer;
+      previous: TPlayer["Permission"];
+      current: TPlayer["Permission"];
+    };
+
+export type BanChange = {
+  source: "bans";
+  type: "added" | "removed";
+  UserId: string;
+  Username: string;
+};
+
+export type StaffRoleName = "coOwner" | "admin" | "mod";
+
+/** A promotion shows up as `removed` from one role and `added` to another. */
+export type StaffChange = {
+  source: "staff";
+  type: "added" | "removed";
+  role: StaffRoleName;
+  UserId: string;
+  Username?: string;
+};
+
+export type StatusField = Exclude<keyof TServerStatus, "CurrentPlayers">;
+
+export type StatusChange = {
+  [K in StatusField]: {
+    source: "status";
+    type: "changed";
+    field: K;
+    previous: TServerStatus[K];
+    current: TServerStatus[K];
+  };
+}[StatusField];
+
+export type SnapshotChange =
+  | PlayerSnapshotChange
+  | BanChange
+  | StaffChange
+  | StatusChange;
+
+export type SnapshotSource = SnapshotChange["source"];
+
+export type SnapshotDifferOptions = {
+  /** Status fields to compare. Defaults to `JoinKey`, `MaxPlayers` and `TeamBalance`. */
+  statusFields?: StatusField[];
+};
+
+export type SnapshotDifferEvents = {
+  /** Every change, one at a time. */
+  change: [change: SnapshotChange];
+  players: [changes: PlayerSnapshotChange[]];
+  bans: [changes: BanChange[]];
+  staff: [changes: StaffChange[]];
+  status: [changes: StatusChange[]];
+};
+
+/** Compares two players lists by `UserId`. */
+export function diffPlayers(
+  previous: TPlayersResponse,
+  current: TPlayersResponse
+): PlayerSnapshotChange[] {
+  const before = new Map(previous.map((player) => [player.UserId, player]));
+  const after = new Map(current.map((player) => [player.UserId, player]));
+  const changes: PlayerSnapshotChange[] = [];
+
+  for (const player of current) {
+    const old = before.get(player.UserId);
+    if (!old) {
+      changes.push({ source: "players", type: "join", player });
+      continue;
+    }
+    if (old.Team !== player.Team) {
+      changes.push({
+        source: "players",
+        type: "team",
+        player,
+        previous: old.Team,
+        current: player.Team,
+      });
+    }
+    // `null` and a missing callsign both mean "none".
+    if ((old.Callsign ?? null) !== (player.Callsign ?? null)) {
+      changes.push({
+        source: "players",
+        type: "callsign",
+        player,
+        previous: old.Callsign,
+        current: player.Callsign,
+      });
+    }
+    if (old.Permission !== player.Permission) {
+      changes.push({
+        source: "players",
+        type: "permission",
+        player,
+        previous: old.Permission,
+        current: player.Permission,
+      });
+    }
+  }
+  for (const player of previous) {
+    if (!after.has(player.UserId)) {
+      changes.push({ source: "players", type: "leave", player });
+    }
+  }
+  return changes;
+}
+
+/** Compares two ban lists (`Record<UserId, Username>`). */
+export function diffBans(previous: TBanEntry, current: TBanEntry): BanChange[] {
+  return diffRecords(previous, current).map(({ type, key, value }) => ({
+    source: "bans",
+    type,
+    UserId: key,
+    Username: value,
+  }));
+}
+
+export function diffStaff(
+  previous: TStaffResponse,
+  current: TStaffResponse
+): StaffChange[] {
+  const ids = (list?: number[]) =>
+    Object.fromEntries((list ?? []).map((id) => [String(id), undefined]));
+  const groups: [
+    StaffRoleName,
+    Record<string, string | undefined>,
+    Record<string, string | undefined>,
+  ][] = [
+    ["coOwner", ids(previous.CoOwners), ids(current.CoOwners)],
+    ["admin", previous.Admins ?? {}, current.Admins ?? {}],
+    ["mod", previous.Mods ?? {}, current.Mods ?? {}],
+  ];
+  return groups.flatMap(([role, before, after]) =>
+    diffRecords(before, after).map(({ type, key, value }) => ({
+      source: "staff" as const,
+      type,
+      role,
+      UserId: key,
+      Username: value,
+    }))
+  );
+}
+
+const DEFAULT_STATUS_FIELDS: StatusField[] = [
+  "JoinKey",
+  "MaxPlayers",
+  "TeamBalance",
+];
+
+export function diffStatus(
+  previous: TServerStatus,
+  current: TServerStatus,
+  fields: StatusField[] = DEFAULT_STATUS_FIELDS
+): StatusChange[] {
+  const changes: StatusChange[] = [];
+  for (const field of fields) {
+    const before = previous[field];
+    const after = current[field];
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({
+        source: "status",
+        type: "changed",
+        field,
+        previous: before,
+        current: after,
+      } as StatusChange);
+    }
+  }
+  return changes;
+}
+
+function diffRecords<T>(
+  previous: Record<string, T>,
+  current: Record<string, T>
+) {
+  const changes: { type: "added" | "removed"; key: string; value: T }[] = [];
+  for (const [key, value] of Object.entries(current)) {
+    if (!Object.hasOwn(previous, key)) {
+      changes.push({ type: "added", key, value });
+    }
+  }
+  for (const [key, value] of Object.entries(previous)) {
+    if (!Object.hasOwn(current, key)) {
+      changes.push({ type: "removed", key, value });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Keeps the last players list, ban list, staff list and server status and
+ * emits what changed whenever a new snapshot arrives. Feed it by hand, or
+ * register `http.use(differ.hooks())` to diff every response automatically.
+ * The first snapshot of each kind only sets the baseline.
+ */
+export class SnapshotDiffer extends EventEmitter<SnapshotDifferEvents> {
+  private readonly statusFields: StatusField[];
+  private last: {
+    players?: TPlayersResponse;
+    bans?: TBanEntry;
+    staff?: TStaffResponse;
+    status?: TServerStatus;
+  } = {};
+
+  constructor(options: SnapshotDifferOptions = {}) {
+    super();
+    this.statusFields = options.statusFields ?? DEFAULT_STATUS_FIELDS;
+  }
+
+  /** Hooks that diff every players, bans, staff and status response. */
+  hooks(): HttpClientHooks {
+    return {
+      onData: (ctx) => {
+        switch (new URL(ctx.url).pathname.replace(/\/+$/, "")) {
+          case "/v1/server/players":
+            return void this.players(ctx.data as TPlayersResponse);
+          case "/v1/server/bans":
+            return void this.bans(ctx.data as TBanEntry);
+          case "/v1/server/staff":
+            return void this.staff(ctx.data as TStaffResponse);
+          case "/v1/server":
+            return void this.status(ctx.data as TServerStatus);
+        }
+      },
+    };
+  }
+
+  players(snapshot: TPlayersResponse) {
+    const previous = this.last.players;
+    this.last.players = snapshot;
+    return this.publish("players", previous && diffPlayers(previous, snapshot));
+  }
+
+  bans(snapshot: TBanEntry) {
+    const previous = this.last.bans;
+    this.last.bans = snapshot;
+    return this.publish("bans", previous && diffBans(previous, snapshot));
+  }
+
+  staff(snapshot: TStaffResponse) {
+    const previous = this.last.staff;
+    this.last.staff = snapshot;
+    return this.publish("staff", previous && diffStaff(previous, snapshot));
+  }
+
+  status(snapshot: TServerStatus) {
+    const previous = this.last.status;
+    this.last.status = snapshot;
+    return this.publish(
+      "status",
+      previous && diffStatus(previous, snapshot, this.statusFields)
+    );
+  }
+
+  /** Forgets the stored snapshots (all, or one kind); the next ones become baselines. */
+  reset(source?: SnapshotSource) {
+    if (source) {
+      delete this.last[source];
+    } else {
+      this.last = {};
+    }
+  }
+
+  private publish<S extends SnapshotSource>(
+    source: S,
+    changes: Extract<SnapshotChange, { source: S }>[] | undefined
+  ) {
+    if (!changes?.length) return changes ?? [];
+    for (const change of changes) this.emit("change", change);
+    (this.emit as (event: S, changes: unknown[]) => boolean)(source, changes);
+    return changes;
+  }
+}
@@ -0,0 +1,10 @@
+export { MockPRCServer, createMockServer } from "./mock-server";
+export { settle } from "./settle";
+export type {
+  MockPRCServerOptions,
+  MockPlayer,
+  MockPermission,
+  MockVehicle,
+  MockFailure,
+  MockRequest,
+} from "./mock-server";
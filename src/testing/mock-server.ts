@@ -0,0 +1,544 @@
+import { createHash } from "node:crypto";
+import { ErrorCode } from "../core/errors";
+import { REMOTE_SERVER } from "../types/responses";
+
+export type MockPermission =
+  | "Normal"
+  | "Server Moderator"
+  | "Server Administrator"
+  | "Server Owner";
+
+export type MockPlayer = {
+  name: string;
+  userId: number;
+  permission?: MockPermission;
+  team?: string;
+  callsign?: string | null;
+};
+
+export type MockVehicle = {
+  name: string;
+  /** Username (or `Name:Id`) of the owner, as PRC reports it. */
+  owner: string;
+  texture?: string | null;
+};
+
+export type MockFailure = {
+  status: number;
+  code?: ErrorCode;
+  message?: string;
+  retryAfterSeconds?: number;
+};
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  headers: Headers;
+  body?: unknown;
+  status: number;
+  at: number;
+};
+
+export type MockPRCServerOptions = {
+  /** Server key clients must send. Any non-empty key is accepted when omitted. */
+  serverKey?: string;
+  /** Required `authorization` header value, if any. */
+  globalKey?: string;
+  name?: string;
+  ownerId?: number;
+  maxPlayers?: number;
+  joinKey?: string;
+  /** Requests allowed per route and window before answering `429`. */
+  rateLimit?: { limit: number; windowMs: number } | false;
+  /** Clock used for timestamps and rate limit windows (ms). */
+  now?: () => number;
+};
+
+type LogRecord = { Timestamp: number } & Record<string, unknown>;
+type Bucket = { remaining: number; resetAt: number };
+type RateResult = {
+  limited: boolean;
+  retryAfterSeconds: number;
+  headers: Record<string, string>;
+};
+
+/**
+ * In-memory simulator of the PRC private server API. Pass `server.fetch` as
+ * `HttpClientOptions.fetch` to run the client against it, then use the
+ * scripting methods (`join`, `kill`, `fail`, ...) to drive the server state.
+ */
+export class MockPRCServer {
+  readonly requests: MockRequest[] = [];
+
+  private readonly serverKey?: string;
+  private readonly globalKey?: string;
+  private readonly rateLimit: { limit: number; windowMs: number } | false;
+  private readonly now: () => number;
+
+  private readonly players = new Map<number, MockPlayer>();
+  private readonly bans = new Map<number, string>();
+  private readonly staff = {
+    coOwners: [] as number[],
+    admins: new Map<number, string>(),
+    mods: new Map<number, string>(),
+  };
+  private vehicles: MockVehicle[] = [];
+  private queue: number[] = [];
+  private readonly joinLogs: LogRecord[] = [];
+  private readonly killLogs: LogRecord[] = [];
+  private readonly commandLogs: LogRecord[] = [];
+  private readonly modCalls: LogRecord[] = [];
+  private readonly failures: { route: string; failure: MockFailure }[] = [];
+  private readonly buckets = new Map<string, Bucket>();
+  private offline = false;
+
+  name: string;
+  ownerId: number;
+  maxPlayers: number;
+  joinKey: string;
+  accVerifiedReq = "Disabled";
+  teamBalance = true;
+
+  constructor(options: MockPRCServerOptions = {}) {
+    this.serverKey = options.serverKey;
+    this.globalKey = options.globalKey;
+    this.rateLimit =
+      options.rateLimit === undefined
+        ? { limit: 60, windowMs: 60_000 }
+        : options.rateLimit;
+    this.now = options.now ?? Date.now;
+    this.name = options.name ?? "Mock Server";
+    this.ownerId = options.ownerId ?? 1;
+    this.maxPlayers = options.maxPlayers ?? 40;
+    this.joinKey = options.joinKey ?? "mock";
+  }
+
+  /** `fetch` implementation serving the simulated API. */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    return this.handle(request);
+  };
+
+  /* ---------------------------- scripting API ---------------------------- */
+
+  join(player: MockPlayer) {
+    this.players.set(player.userId, { permission: "Normal", ...player });
+    this.queue = this.queue.filter((id) => id !== player.userId);
+    this.joinLogs.push({
+      Join: true,
+      Timestamp: this.seconds(),
+      Player: identity(player),
+    });
+    return this;
+  }
+
+  leave(userId: number) {
+    const player = this.players.get(userId);
+    if (!player) return this;
+    this.players.delete(userId);
+    this.vehicles = this.vehicles.filter((v) => v.owner !== player.name);
+    this.joinLogs.push({
+      Join: false,
+      Timestamp: this.seconds(),
+      Player: identity(player),
+    });
+    return this;
+  }
+
+  /** Changes a connected player's team, permission or callsign. */
+  update(userId: number, changes: Partial<Omit<MockPlayer, "userId">>) {
+    const player = this.players.get(userId);
+    if (player) Object.assign(player, changes);
+    return this;
+  }
+
+  kill(killerId: number, killedId: number) {
+    const killer = this.requirePlayer(killerId);
+    const killed = this.requirePlayer(killedId);
+    this.killLogs.push({
+      Killer: identity(killer),
+      Killed: identity(killed),
+      Timestamp: this.seconds(),
+    });
+    return this;
+  }
+
+  modCall(callerId: number, moderatorId?: number) {
+    const caller = this.requirePlayer(callerId);
+    const moderator =
+      moderatorId != null ? this.requirePlayer(moderatorId) : undefined;
+    this.modCalls.push({
+      Caller: identity(caller),
+      Moderator: moderator ? identity(moderator) : undefined,
+      Timestamp: this.seconds(),
+    });
+    return this;
+  }
+
+  /** Logs a command as if a player ran it in-game. */
+  runCommand(userId: number, command: string) {
+    const player = this.requirePlayer(userId);
+    this.commandLogs.push({
+      Player: identity(player),
+      Command: command,
+      Timestamp: this.seconds(),
+    });
+    return this;
+  }
+
+  ban(userId: number, name: string) {
+    this.bans.set(userId, name);
+    if (this.players.has(userId)) this.leave(userId);
+    return this;
+  }
+
+  unban(userId: number) {
+    this.bans.delete(userId);
+    return this;
+  }
+
+  enqueue(...userIds: number[]) {
+    this.queue.push(...userIds);
+    return this;
+  }
+
+  dequeue(userId: number) {
+    this.queue = this.queue.filter((id) => id !== userId);
+    return this;
+  }
+
+  spawnVehicle(vehicle: MockVehicle) {
+    this.vehicles.push(vehicle);
+    return this;
+  }
+
+  setStaff(staff: {
+    coOwners?: number[];
+    admins?: Record<number, string>;
+    mods?: Record<number, string>;
+  }) {
+    if (staff.coOwners) this.staff.coOwners = [...staff.coOwners];
+    if (staff.admins) this.staff.admins = toMap(staff.admins);
+    if (staff.mods) this.staff.mods = toMap(staff.mods);
+    return this;
+  }
+
+  /** While offline every route answers with `ErrorCode.ServerOffline`. */
+  setOffline(offline: boolean) {
+    this.offline = offline;
+    return this;
+  }
+
+  /**
+   * Makes the next `times` requests to `route` (a path such as
+   * `/v1/server/players`, or `*` for any route) fail with `failure`.
+   */
+  fail(route: string, failure: MockFailure, times = 1) {
+    for (let i = 0; i < times; i++) {
+      this.failures.push({ route, failure });
+    }
+    return this;
+  }
+
+  /** Forgets every rate limit bucket, as if all windows had reset. */
+  resetRateLimits() {
+    this.buckets.clear();
+    return this;
+  }
+
+  getPlayers(): MockPlayer[] {
+    return [...this.players.values()].map((player) => ({ ...player }));
+  }
+
+  /* ------------------------------- routing ------------------------------- */
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/\/$/, "");
+    const method = request.method.toUpperCase();
+    const body = await request.text().then((text) => parseJson(text));
+    const record = (response: Response) => {
+      this.requests.push({
+        method,
+        path,
+        headers: request.headers,
+        body,
+        status: response.status,
+        at: this.now(),
+      });
+      return response;
+    };
+
+    const auth = this.authenticate(request.headers);
+    if (auth) return record(auth);
+
+    const rate = this.consume(path);
+    if (rate.limited) {
+      return record(
+        error(429, ErrorCode.RateLimited, "You are being rate limited!", {
+          ...rate.headers,
+          "retry-after": String(rate.retryAfterSeconds),
+        })
+      );
+    }
+
+    const failure = this.takeFailure(path);
+    if (failure) {
+      const headers: Record<string, string> = { ...rate.headers };
+      if (failure.retryAfterSeconds != null) {
+        headers["retry-after"] = String(failure.retryAfterSeconds);
+      }
+      return record(
+        error(
+          failure.status,
+          failure.code ?? ErrorCode.Unknown,
+          failure.message ?? "Injected failure",
+          headers
+        )
+      );
+    }
+
+    if (this.offline) {
+      return record(
+        error(
+          422,
+          ErrorCode.ServerOffline,
+          "The server is offline.",
+          rate.headers
+        )
+      );
+    }
+
+    if (method === "POST" && path === "/v1/server/command") {
+      return record(this.command(body, rate.headers));
+    }
+    if (method !== "GET") {
+      return record(
+        error(405, ErrorCode.Unknown, "Method not allowed", rate.headers)
+      );
+    }
+
+    const payload = this.resolve(path);
+    if (payload === undefined) {
+      return record(error(404, ErrorCode.Unknown, "Not found", rate.headers));
+    }
+    return record(json(payload, rate.headers));
+  }
+
+  private resolve(path: string): unknown {
+    switch (path) {
+      case "/v1/server":
+        return {
+          Name: this.name,
+          OwnerId: this.ownerId,
+          CoOwners: [...this.staff.coOwners],
+          CurrentPlayers: this.players.size,
+          MaxPlayers: this.maxPlayers,
+          JoinKey: this.joinKey,
+          AccVerifiedReq: this.accVerifiedReq,
+          TeamBalance: this.teamBalance,
+        };
+      case "/v1/server/players":
+        return [...this.players.values()].map((player) => ({
+          Player: identity(player),
+          Permission: player.permission ?? "Normal",
+          Callsign: player.callsign ?? null,
+          Team: player.team ?? "Civilian",
+        }));
+      case "/v1/server/staff":
+        return {
+          CoOwners: [...this.staff.coOwners],
+          Admins: fromMap(this.staff.admins),
+          Mods: fromMap(this.staff.mods),
+        };
+      case "/v1/server/bans":
+        return fromMap(this.bans);
+      case "/v1/server/queue":
+        return [...this.queue];
+      case "/v1/server/joinlogs":
+        return [...this.joinLogs].reverse();
+      case "/v1/server/killlogs":
+        return [...this.killLogs].reverse();
+      case "/v1/server/commandlogs":
+        return [...this.commandLogs].reverse();
+      case "/v1/server/modcalls":
+        return [...this.modCalls].reverse();
+      case "/v1/server/vehicles":
+        return this.vehicles.map((vehicle) => ({
+          Name: vehicle.name,
+          Owner: vehicle.owner,
+          Texture: vehicle.texture ?? null,
+        }));
+      default:
+        return undefined;
+    }
+  }
+
+  /*
+    Only a handful of commands change simulated state; every command that
+    looks valid is logged, which is what clients can observe in practice.
+  */
+  private command(body: unknown, headers: Record<string, string>) {
+    const command =
+      body && typeof body === "object"
+        ? (body as { command?: unknown }).command
+        : undefined;
+    if (typeof command !== "string" || !/^:\w+/.test(command.trim())) {
+      return error(400, ErrorCode.InvalidCommand, "Invalid command", headers);
+    }
+
+    const [verb, target] = command.trim().slice(1).split(/\s+/);
+    const player = target ? this.findPlayer(target) : undefined;
+    switch (verb.toLowerCase()) {
+      case "kick":
+        if (player) this.leave(player.userId);
+        break;
+      case "ban":
+        if (player) this.ban(player.userId, player.name);
+        break;
+      case "unban": {
+        const id = Number(target);
+        const banned = [...this.bans].find(
+          ([userId, name]) =>
+            userId === id || name.toLowerCase() === target?.toLowerCase()
+        );
+        if (banned) this.unban(banned[0]);
+        break;
+      }
+    }
+
+    this.commandLogs.push({
+      Player: REMOTE_SERVER,
+      Command: command,
+      Timestamp: this.seconds(),
+    });
+    return new Response(null, { status: 204, headers });
+  }
+
+  private authenticate(headers: Headers): Response | undefined {
+    const key = headers.get("server-key");
+    if (!key) {
+      return error(403, ErrorCode.MissingServerKey, "Missing server key");
+    }
+    if (this.serverKey && key !== this.serverKey) {
+      return error(403, ErrorCode.InvalidServerKey, "Invalid server key");
+    }
+    if (this.globalKey && headers.get("authorization") !== this.globalKey) {
+      return error(
+        403,
+        ErrorCode.InvalidGlobalApiKey,
+        "Invalid global API key"
+      );
+    }
+    return undefined;
+  }
+
+  private consume(path: string): RateResult {
+    if (!this.rateLimit) {
+      return { limited: false, headers: {}, retryAfterSeconds: 0 };
+    }
+
+    const now = this.now();
+    let bucket = this.buckets.get(path);
+    if (!bucket || now >= bucket.resetAt) {
+      bucket = {
+        remaining: this.rateLimit.limit,
+        resetAt: now + this.rateLimit.windowMs,
+      };
+      this.buckets.set(path, bucket);
+    }
+
+    const limited = bucket.remaining <= 0;
+    if (!limited) bucket.remaining--;
+
+    return {
+      limited,
+      retryAfterSeconds: Math.max(0, Math.ceil((bucket.resetAt - now) / 1000)),
+      headers: {
+        "x-ratelimit-limit": String(this.rateLimit.limit),
+        "x-ratelimit-remaining": String(bucket.remaining),
+        "x-ratelimit-reset": String(Math.ceil(bucket.resetAt / 1000)),
+      },
+    };
+  }
+
+  private takeFailure(path: string) {
+    const index = this.failures.findIndex(
+      ({ route }) => route === "*" || route === path
+    );
+    if (index === -1) return undefined;
+    return this.failures.splice(index, 1)[0].failure;
+  }
+
+  private findPlayer(target: string) {
+    const lower = target.toLowerCase();
+    return [...this.players.values()].find(
+      (player) =>
+        String(player.userId) === target ||
+        player.name.toLowerCase().startsWith(lower)
+    );
+  }
+
+  private requirePlayer(userId: number) {
+    const player = this.players.get(userId);
+    if (!player) {
+      throw new Error(`Player ${userId} is not in the mock server.`);
+    }
+    return player;
+  }
+
+  private seconds() {
+    return Math.floor(this.now() / 1000);
+  }
+}
+
+/** Creates a simulator; pass its `fetch` to `PRC` or `HttpClient`. */
+export function createMockServer(options?: MockPRCServerOptions) {
+  return new MockPRCServer(options);
+}
+
+function identity(player: MockPlayer) {
+  return `${player.name}:${player.userId}`;
+}
+
+function toMap(record: Record<number, string>) {
+  return new Map(
+    Object.entries(record).map(([id, name]) => [Number(id), name] as const)
+  );
+}
+
+function fromMap(map: Map<number, string>) {
+  return Object.fromEntries(
+    [...map].map(([id, name]) => [String(id), name] as const)
+  );
+}
+
+function parseJson(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function json(payload: unknown, headers: Record<string, string>) {
+  const body = JSON.stringify(payload);
+  const etag = `"${createHash("sha1").update(body).digest("hex")}"`;
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, "content-type": "application/json", etag },
+  });
+}
+
+function error(
+  status: number,
+  code: ErrorCode,
+  message: string,
+  headers: Record<string, string> = {}
+) {
+  return new Response(JSON.stringify({ code, message }), {
+    status,
+    headers: { ...headers, "content-type": "application/json" },
+  });
+}
@@ -0,0 +1,19 @@
+import type { VirtualClock } from "../utils/clock";
+
+/**
+ * Runs `clock` until `promise` settles, then returns it. Requests wait on the
+ * rate limiter's timers, which only fire as virtual time moves, so awaiting
+ * them directly would never finish.
+ */
+export async function settle<T>(clock: VirtualClock, promise: Promise<T>) {
+  let done = false;
+  promise.then(
+    () => (done = true),
+    () => (done = true)
+  );
+  while (!done) {
+    await clock.runAll(100);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return promise;
+}
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CommandLogEntry, REMOTE_SERVER, VehicleEntry } from "./responses";
+
+describe("VehicleEntry", () => {
+  it("splits Name:Id owners", () => {
+    const vehicle = VehicleEntry.parse({
+      Name: "Falcon Stallion 350",
+      Owner: "john:1",
+      Texture: "Police",
+    });
+    assert.deepEqual(vehicle.Owner, { Username: "john", UserId: "1" });
+  });
+
+  it("leaves UserId out for bare usernames", () => {
+    const vehicle = VehicleEntry.parse({ Name: "Bullhorn", Owner: "john" });
+    assert.deepEqual(vehicle.Owner, { Username: "john" });
+  });
+
+  it("accepts entries without a name or owner", () => {
+    assert.deepEqual(VehicleEntry.parse({}), { Owner: undefined });
+  });
+});
+
+describe("CommandLogEntry", () => {
+  it("splits in-game players", () => {
+    const entry = CommandLogEntry.parse({
+      Player: "mod:7",
+      Timestamp: 1,
+      Command: ":kick john",
+    });
+    assert.equal(entry.Username, "mod");
+    assert.equal(entry.UserId, "7");
+  });
+
+  it("leaves UserId out for commands sent through the API", () => {
+    const entry = CommandLogEntry.parse({
+      Player: REMOTE_SERVER,
+      Timestamp: 1,
+      Command: ":h hi",
+    });
+    assert.deepEqual(entry, {
+      Username: REMOTE_SERVER,
+      Timestamp: 1,
+      Command: ":h hi",
+    });
+  });
+});
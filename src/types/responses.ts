@@ -7,6 +7,15 @@ export const PermissionEnum = z.enum([
   "Server Owner",
 ]);
 
+/** `Player` of log entries for commands sent through the API rather than in-game. */
+export const REMOTE_SERVER = "Remote Server";
+
+/** Splits the API's `"Name:Id"` player strings. */
+export const parsePlayer = (player: string) => {
+  const [Username, UserId] = player.split(":");
+  return { Username, UserId };
+};
+
 export const PlayerSchema = z
   .object({
     Player: z.string(),
@@ -15,8 +24,7 @@ export const PlayerSchema = z
     Team: z.string().optional(),
   })
   .transform(({ Player, ...rest }) => ({
-    Username: Player.split(":")[0],
-    UserId: Player.split(":")[1],
+    ...parsePlayer(Player),
     ...rest,
   }));
 
@@ -29,8 +37,7 @@ export const JoinLogEntry = z
     Player: z.string(),
   })
   .transform(({ Player, ...rest }) => ({
-    Username: Player.split(":")[0],
-    UserId: Player.split(":")[1],
+    ...parsePlayer(Player),
     ...rest,
   }));
 
@@ -41,14 +48,8 @@ export const KillLogEntry = z
     Killer: z.string(),
   })
   .transform(({ Killer, Killed, ...rest }) => ({
-    Killer: {
-      Username: Killer.split(":")[0],
-      UserId: Killer.split(":")[1],
-    },
-    Killed: {
-      Username: Killed.split(":")[0],
-      UserId: Killed.split(":")[1],
-    },
+    Killer: parsePlayer(Killer),
+    Killed: parsePlayer(Killed),
     ...rest,
   }));
 
@@ -63,11 +64,27 @@ export const ServerStatus = z.object({
   TeamBalance: z.boolean().optional(),
 });
 
-export const CommandLogEntry = z.object({
-  Player: z.string(),
-  Timestamp: z.number(),
-  Command: z.string(),
-});
+/*
+  Vehicle owners can be a bare username, and commands sent through the API are
+  logged as `Remote Server`, so neither always carries an ID.
+*/
+const parseNamedPlayer = (
+  player: string
+): { Username: string; UserId?: string } => {
+  const { Username, UserId } = parsePlayer(player);
+  return UserId ? { Username, UserId } : { Username };
+};
+
+export const CommandLogEntry = z
+  .object({
+    Player: z.string(),
+    Timestamp: z.number(),
+    Command: z.string(),
+  })
+  .transform(({ Player, ...rest }) => ({
+    ...parseNamedPlayer(Player),
+    ...rest,
+  }));
 
 export const ModCallEntry = z
   .object({
@@ -77,24 +94,32 @@ export const ModCallEntry = z
   })
   .transform(({ Moderator, Caller, ...rest }) => ({
     ...rest,
-    Moderator: Moderator
-      ? {
-          Username: Moderator.split(":")[0],
-          UserId: Moderator.split(":")[1],
-        }
-      : null,
-    Caller: {
-      Username: Caller.split(":")[0],
-      UserId: Caller.split(":")[1],
-    },
+    Moderator: Moderator ? parsePlayer(Moderator) : null,
+    Caller: parsePlayer(Caller),
   }));
 
 export const BanEntry = z.record(z.string().regex(/^\d+$/), z.string());
 
-export const VehicleEntry = z.object({
-  Name: z.string().optional(),
-  Owner: z.string().optional(),
-});
+/**
+ * `Owner.UserId` is only set when PRC reports the owner as `Name:Id`. Bare
+ * usernames carry no ID; `PlayerResolver.resolveVehicles()` fills it in for
+ * owners the resolver has seen.
+ */
+export const VehicleEntry = z
+  .object({
+    Name: z.string().optional(),
+    Owner: z.string().optional(),
+    Texture: z.string().optional().nullable(),
+  })
+  .transform(({ Owner, ...rest }) => ({
+    ...rest,
+    Owner: Owner === undefined ? undefined : parseNamedPlayer(Owner),
+  }));
+
+export const VehiclesResponse = z.array(VehicleEntry);
+
+/** Roblox user IDs waiting to join, front of the queue first. */
+export const QueueResponse = z.array(z.number().int().positive());
 
 export const StaffResponse = z.object({
   CoOwners: z.array(z.number()).optional(),
@@ -103,6 +128,7 @@ export const StaffResponse = z.object({
 });
 
 export type TServerStatus = z.infer<typeof ServerStatus>;
+export type TPlayer = z.infer<typeof PlayerSchema>;
 export type TPlayersResponse = z.infer<typeof PlayersResponse>;
 export type TJoinLogEntry = z.infer<typeof JoinLogEntry>;
 export type TKillLogEntry = z.infer<typeof KillLogEntry>;
@@ -110,4 +136,6 @@ export type TCommandLogEntry = z.infer<typeof CommandLogEntry>;
 export type TModCallEntry = z.infer<typeof ModCallEntry>;
 export type TBanEntry = z.infer<typeof BanEntry>;
 export type TVehicleEntry = z.infer<typeof VehicleEntry>;
+export type TVehiclesResponse = z.infer<typeof VehiclesResponse>;
 export type TStaffResponse = z.infer<typeof StaffResponse>;
+export type TQueueResponse = z.infer<typeof QueueResponse>;
@@ -0,0 +1,105 @@
+export type ClockTimer = unknown;
+
+/**
+ * Source of time and timers. Everything that waits or reads the current time
+ * in the client goes through a `Clock`, so tests can swap in `VirtualClock`.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+type VirtualTimer = { id: number; dueAt: number; fn: () => void };
+
+/**
+ * Deterministic clock for tests. Time only moves when `advance` (or `runAll`)
+ * is called; due timers fire in order and pending promise callbacks are
+ * flushed after each one, so async code scheduled by a timer settles before
+ * the next timer runs.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private nextId = 1;
+  private timers: VirtualTimer[] = [];
+
+  constructor(start = 0) {
+    this.current = start;
+  }
+
+  now() {
+    return this.current;
+  }
+
+  setTimeout(fn: () => void, ms: number): ClockTimer {
+    const timer = {
+      id: this.nextId++,
+      dueAt: this.current + Math.max(0, ms || 0),
+      fn,
+    };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimeout(timer: ClockTimer) {
+    this.timers = this.timers.filter((t) => t.id !== timer);
+  }
+
+  /** Number of timers waiting to fire. */
+  get pending() {
+    return this.timers.length;
+  }
+
+  /** Moves time forward by `ms`, firing every timer that becomes due. */
+  async advance(ms: number) {
+    const target = this.current + Math.max(0, ms);
+    await flush();
+    for (;;) {
+      const timer = this.nextDue(target);
+      if (!timer) break;
+      this.timers = this.timers.filter((t) => t !== timer);
+      this.current = Math.max(this.current, timer.dueAt);
+      timer.fn();
+      await flush();
+    }
+    this.current = target;
+  }
+
+  /**
+   * Fires timers until none are left, or until `limit` timers have run (to
+   * stop runaway polling loops). Returns the number of timers fired.
+   */
+  async runAll(limit = 10_000) {
+    let fired = 0;
+    await flush();
+    while (this.timers.length && fired < limit) {
+      const timer = this.nextDue(Infinity) as VirtualTimer;
+      this.timers = this.timers.filter((t) => t !== timer);
+      this.current = Math.max(this.current, timer.dueAt);
+      timer.fn();
+      fired++;
+      await flush();
+    }
+    return fired;
+  }
+
+  private nextDue(until: number) {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers) {
+      if (timer.dueAt > until) continue;
+      if (!next || timer.dueAt < next.dueAt) next = timer;
+    }
+    return next;
+  }
+}
+
+/* Lets promise chains started by a timer settle before time moves on. */
+function flush() {
+  return new Promise<void>((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCommand } from "./command-parser";
+import { Commands } from "./commands";
+
+describe("parseCommand", () => {
+  it("splits targets and the reason of moderation commands", () => {
+    assert.deepEqual(parseCommand(":kick john,amy rdm in spawn"), {
+      raw: ":kick john,amy rdm in spawn",
+      verb: "kick",
+      action: "kick",
+      targets: ["john", "amy"],
+      reason: "rdm in spawn",
+    });
+    const ban = parseCommand(":ban john");
+    assert.ok(ban.action === "ban");
+    assert.equal(ban.reason, undefined);
+  });
+
+  it("reads free text, destinations and values", () => {
+    assert.deepEqual(parseCommand(":pm john read the rules"), {
+      raw: ":pm john read the rules",
+      verb: "pm",
+      action: "pm",
+      targets: ["john"],
+      message: "read the rules",
+    });
+    assert.deepEqual(parseCommand(":tp john jane"), {
+      raw: ":tp john jane",
+      verb: "tp",
+      action: "tp",
+      targets: ["john"],
+      destination: "jane",
+    });
+    assert.deepEqual(parseCommand(":weather"), {
+      raw: ":weather",
+      verb: "weather",
+      action: "weather",
+      value: undefined,
+    });
+  });
+
+  it("resolves aliases and ignores case and extra whitespace", () => {
+    const parsed = parseCommand("  :M   server  restart ");
+
+    assert.equal(parsed.verb, "m");
+    assert.equal(parsed.action, "message");
+    assert.ok(parsed.action === "message");
+    assert.equal(parsed.message, "server restart");
+  });
+
+  it("keeps unknown commands with their arguments instead of throwing", () => {
+    assert.equal(parseCommand(":dance john now").action, "unknown");
+    assert.deepEqual(parseCommand(""), {
+      raw: "",
+      verb: "",
+      action: "unknown",
+      args: [],
+    });
+  });
+
+  it("reverses the command builders", () => {
+    const built = [
+      Commands.kick("john", "RDM"),
+      Commands.unban(12345),
+      Commands.jail(["john", "jane"]),
+      Commands.message("server restart"),
+    ];
+
+    assert.deepEqual(
+      built.map((command) => {
+        const parsed = parseCommand(command);
+        return "targets" in parsed
+          ? [parsed.action, parsed.targets]
+          : [parsed.action];
+      }),
+      [
+        ["kick", ["john"]],
+        ["unban", ["12345"]],
+        ["jail", ["john", "jane"]],
+        ["message"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/** Commands whose only argument is a comma separated list of targets. */
+const TARGET_ACTIONS = [
+  "unban",
+  "wanted",
+  "unwanted",
+  "jail",
+  "unjail",
+  "heal",
+  "kill",
+  "refresh",
+  "respawn",
+  "load",
+  "admin",
+  "unadmin",
+  "mod",
+  "unmod",
+  "helper",
+  "unhelper",
+] as const;
+
+/** Server-wide commands taking a single free-form value. */
+const VALUE_ACTIONS = ["weather", "time", "prty", "peace"] as const;
+
+export type TargetAction = (typeof TARGET_ACTIONS)[number];
+export type ValueAction = (typeof VALUE_ACTIONS)[number];
+
+type ParsedBase = {
+  /** The command exactly as logged. */
+  raw: string;
+  /** Lower-cased command name without the leading `:`, e.g. `kick`. */
+  verb: string;
+};
+
+/**
+ * Structured form of a logged command, discriminated by `action`. Commands
+ * the parser does not know become `unknown` with their raw arguments.
+ */
+export type ParsedCommand = ParsedBase &
+  (
+    | { action: "kick" | "ban"; targets: string[]; reason?: string }
+    | { action: TargetAction; targets: string[] }
+    | { action: "pm"; targets: string[]; message: string }
+    | { action: "message" | "hint"; message: string }
+    | { action: "tp"; targets: string[]; destination?: string }
+    | { action: ValueAction; value?: string }
+    | { action: "shutdown" }
+    | { action: "unknown"; args: string[] }
+  );
+
+export type CommandAction = ParsedCommand["action"];
+
+const ALIASES: Record<string, CommandAction> = { m: "message", h: "hint" };
+
+function isOneOf<T extends string>(
+  list: readonly T[],
+  value: string
+): value is T {
+  return (list as readonly string[]).includes(value);
+}
+
+/**
+ * Parses a command log string such as `":kick john,amy rdm"` into
+ * `{ action: "kick", targets: ["john", "amy"], reason: "rdm" }`. The inverse
+ * of the `Commands` builders; never throws.
+ */
+export function parseCommand(command: string): ParsedCommand {
+  const raw = command;
+  const [head = "", ...args] = command.trim().split(/\s+/);
+  const verb = head.replace(/^:/, "").toLowerCase();
+  const action = ALIASES[verb] ?? verb;
+  const targets = (args[0] ?? "").split(",").filter(Boolean);
+  const rest = (from: number) => args.slice(from).join(" ");
+  const base = { raw, verb };
+
+  switch (action) {
+    case "kick":
+    case "ban":
+      return { ...base, action, targets, reason: rest(1) || undefined };
+    case "pm":
+      return { ...base, action, targets, message: rest(1) };
+    case "message":
+    case "hint":
+      return { ...base, action, message: rest(0) };
+    case "tp":
+      return { ...base, action, targets, destination: args[1] };
+    case "shutdown":
+      return { ...base, action };
+  }
+  if (isOneOf(TARGET_ACTIONS, action)) {
+    return { ...base, action, targets };
+  }
+  if (isOneOf(VALUE_ACTIONS, action)) {
+    return { ...base, action, value: rest(0) || undefined };
+  }
+  return { ...base, action: "unknown", args };
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PRC } from "../client";
+import { CommandRejectedError, ErrorCode } from "../core/errors";
+import { createMockServer } from "../testing";
+import {
+  Commands,
+  CommandValidationError,
+  MAX_COMMAND_LENGTH,
+} from "./commands";
+
+describe("Commands", () => {
+  it("builds commands from names, user IDs and player objects", () => {
+    assert.equal(Commands.kick("john", "RDM"), ":kick john RDM");
+    assert.equal(Commands.unban(12345), ":unban 12345");
+    assert.equal(
+      Commands.jail([{ Username: "john", UserId: "1" }, "jane"]),
+      ":jail john,jane"
+    );
+    assert.equal(Commands.message("server restart"), ":m server restart");
+  });
+
+  it("collapses line breaks and control characters in free text", () => {
+    assert.equal(
+      Commands.pm("john", "line one\n:kick jane\tnow"),
+      ":pm john line one :kick jane now"
+    );
+  });
+
+  const invalid: [string, () => string, string | undefined][] = [
+    ["a missing target", () => Commands.kick(""), "target"],
+    ["a target with spaces", () => Commands.kick("john doe"), "target"],
+    ["a target with a separator", () => Commands.ban("john,jane"), "target"],
+    ["an invalid user ID", () => Commands.unban(-1), "target"],
+    ["an empty message", () => Commands.message("   "), "message"],
+    ["an empty target list", () => Commands.heal([]), "target"],
+    [
+      "a command over the length limit",
+      () => Commands.message("x".repeat(MAX_COMMAND_LENGTH)),
+      undefined,
+    ],
+  ];
+
+  for (const [name, build, argument] of invalid) {
+    it(`rejects ${name}`, () => {
+      assert.throws(build, (error) => {
+        assert.ok(error instanceof CommandValidationError);
+        assert.equal(error.argument, argument);
+        return true;
+      });
+    });
+  }
+});
+
+describe("CommandsAPI", () => {
+  it("sends validated commands", async () => {
+    const mock = createMockServer({ rateLimit: false });
+    mock.join({ name: "john", userId: 1 });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch });
+
+    await api.commands.kick({ Username: "john", UserId: "1" }, "RDM");
+
+    assert.deepEqual(mock.requests[0].body, { command: ":kick john RDM" });
+    assert.deepEqual(mock.getPlayers(), []);
+  });
+
+  it("rejects before spending a request on an invalid command", async () => {
+    const mock = createMockServer({ rateLimit: false });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch });
+
+    await assert.rejects(api.commands.pm("john", ""), CommandValidationError);
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it("surfaces commands the server rejects", async () => {
+    const mock = createMockServer({ rateLimit: false });
+    const api = new PRC({ serverKey: "key", fetch: mock.fetch });
+
+    const error = await api.server.command("kick john").catch((e) => e);
+
+    assert.ok(error instanceof CommandRejectedError);
+    assert.equal(error.code, ErrorCode.InvalidCommand);
+    assert.equal(error.isUserFacing, true);
+  });
+});
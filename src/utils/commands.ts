@@ -0,0 +1,141 @@
+/** Maximum length of a full command string accepted by the in-game module. */
+export const MAX_COMMAND_LENGTH = 200;
+
+/**
+ * Anything that identifies a player in a command. Resolved player objects
+ * (from `PlayerSchema`, log entries, ...) are reduced to their username, while
+ * numbers are treated as Roblox user IDs.
+ */
+export type CommandTarget =
+  | string
+  | number
+  | { Username: string; UserId?: string | number };
+
+export type CommandTargets = CommandTarget | CommandTarget[];
+
+export class CommandValidationError extends Error {
+  public readonly command: string;
+  public readonly argument?: string;
+
+  constructor(command: string, message: string, argument?: string) {
+    super(`[${command}] ${message}`);
+    this.name = "CommandValidationError";
+    this.command = command;
+    this.argument = argument;
+  }
+}
+
+const TARGET_PATTERN = /^[A-Za-z0-9_]+$/;
+
+function target(command: string, value: CommandTarget): string {
+  if (typeof value === "number") {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new CommandValidationError(
+        command,
+        `Invalid user ID: ${value}`,
+        "target"
+      );
+    }
+    return String(value);
+  }
+
+  const raw = (typeof value === "string" ? value : value?.Username)?.trim();
+  if (!raw) {
+    throw new CommandValidationError(command, "Missing target", "target");
+  }
+  if (!TARGET_PATTERN.test(raw)) {
+    throw new CommandValidationError(
+      command,
+      `Invalid target "${raw}" (only letters, digits and underscores are allowed)`,
+      "target"
+    );
+  }
+  return raw;
+}
+
+function targets(command: string, value: CommandTargets): string {
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.length) {
+    throw new CommandValidationError(command, "Missing target", "target");
+  }
+  return list.map((entry) => target(command, entry)).join(",");
+}
+
+/**
+ * The in-game command parser has no quoting syntax, so free text is always
+ * passed as the last argument. Control characters and line breaks are
+ * collapsed into single spaces so they can't split the command.
+ */
+function text(command: string, value: string, argument: string): string {
+  const clean = String(value ?? "")
+    .replace(/[\u0000-\u001f\u007f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!clean) {
+    throw new CommandValidationError(command, `Missing ${argument}`, argument);
+  }
+  return clean;
+}
+
+function build(command: string, ...args: (string | undefined)[]): string {
+  const result = [
+    `:${command}`,
+    ...args.filter((a) => a != null && a !== ""),
+  ].join(" ");
+  if (result.length > MAX_COMMAND_LENGTH) {
+    throw new CommandValidationError(
+      command,
+      `Command is ${result.length} characters long (max ${MAX_COMMAND_LENGTH})`
+    );
+  }
+  return result;
+}
+
+function optionalText(
+  command: string,
+  value: string | undefined,
+  argument: string
+) {
+  if (value == null || value.trim() === "") {
+    return undefined;
+  }
+  return text(command, value, argument);
+}
+
+/**
+ * Builders that turn typed arguments into validated command strings for
+ * `ServerAPI.command`. Every builder throws a `CommandValidationError` instead
+ * of producing a command the server would reject.
+ */
+export const Commands = {
+  kick: (who: CommandTargets, reason?: string) =>
+    build("kick", targets("kick", who), optionalText("kick", reason, "reason")),
+
+  ban: (who: CommandTargets, reason?: string) =>
+    build("ban", targets("ban", who), optionalText("ban", reason, "reason")),
+
+  unban: (who: CommandTargets) => build("unban", targets("unban", who)),
+
+  pm: (who: CommandTargets, message: string) =>
+    build("pm", targets("pm", who), text("pm", message, "message")),
+
+  message: (message: string) => build("m", text("m", message, "message")),
+
+  hint: (message: string) => build("h", text("h", message, "message")),
+
+  tp: (who: CommandTargets, destination: CommandTarget) =>
+    build("tp", targets("tp", who), target("tp", destination)),
+
+  wanted: (who: CommandTargets) => build("wanted", targets("wanted", who)),
+
+  unwanted: (who: CommandTargets) =>
+    build("unwanted", targets("unwanted", who)),
+
+  jail: (who: CommandTargets) => build("jail", targets("jail", who)),
+
+  unjail: (who: CommandTargets) => build("unjail", targets("unjail", who)),
+
+  heal: (who: CommandTargets) => build("heal", targets("heal", who)),
+} as const;
+
+export type CommandName = keyof typeof Commands;
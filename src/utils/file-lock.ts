@@ -0,0 +1,59 @@
+import { mkdir, open, stat, unlink } from "node:fs/promises";
+import { dirname } from "node:path";
+import { sleep } from "./headers";
+
+export type FileLockOptions = {
+  /** Give up acquiring the lock after this long. Defaults to 5s. */
+  timeoutMs?: number;
+  /** Locks older than this are assumed to belong to a crashed process. Defaults to 10s. */
+  staleMs?: number;
+};
+
+/**
+ * Runs `fn` while holding the lock file `lockPath`, so read-modify-write
+ * cycles on a shared file from several processes never interleave.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  await acquire(
+    lockPath,
+    options.timeoutMs ?? 5_000,
+    options.staleMs ?? 10_000
+  );
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => undefined);
+  }
+}
+
+async function acquire(lockPath: string, timeoutMs: number, staleMs: number) {
+  const deadline = Date.now() + timeoutMs;
+  await mkdir(dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const info = await stat(lockPath).catch(() => undefined);
+    if (info && Date.now() - info.mtimeMs > staleMs) {
+      await unlink(lockPath).catch(() => undefined);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Timed out acquiring lock ${lockPath} after ${timeoutMs}ms`
+      );
+    }
+    await sleep(5 + Math.random() * 15);
+  }
+}
@@ -1,3 +1,5 @@
+import { Clock, systemClock } from "./clock";
+
 export type RateHeaders = {
   remaining?: number;
   resetSeconds?: number;
@@ -26,10 +28,27 @@ export function clampDelay(ms: number | undefined | null): number {
   return Math.min(MAX_TIMEOUT, Math.max(0, Math.floor(ms)));
 }
 
-export function sleep(ms: number) {
+export function sleep(
+  ms: number,
+  clock: Clock = systemClock,
+  signal?: AbortSignal
+) {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
   const delay = clampDelay(ms);
   if (delay === 0) {
     return Promise.resolve();
   }
-  return new Promise((r) => setTimeout(r, delay));
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
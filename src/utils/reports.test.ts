@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CommandLogEntry, ModCallEntry } from "../types/responses";
+import { buildModerationReport, exportModerationReport } from "./reports";
+
+const command = (Player: string, Timestamp: number, Command: string) =>
+  CommandLogEntry.parse({ Player, Timestamp, Command });
+
+describe("buildModerationReport", () => {
+  const report = buildModerationReport({
+    commands: [
+      command("mod:7", 110, ":kick john rdm"),
+      command("Remote Server", 120, ":pm john warning"),
+      command("Remote Server", 130, ":h restart soon"),
+      command("mod:7", 140, ":tp john"),
+    ],
+    modCalls: [
+      ModCallEntry.parse({
+        Caller: "john:1",
+        Moderator: "mod:7",
+        Timestamp: 100,
+      }),
+      ModCallEntry.parse({ Caller: "jane:2", Timestamp: 105 }),
+    ],
+  });
+
+  it("credits in-game commands to their moderator", () => {
+    assert.equal(report.moderators.length, 1);
+    const [moderator] = report.moderators;
+    assert.equal(moderator.UserId, "7");
+    assert.equal(moderator.commands, 2);
+    assert.deepEqual(moderator.commandsByVerb, { kick: 1, tp: 1 });
+    assert.equal(moderator.modCallsAnswered, 1);
+    assert.equal(moderator.averageResponseSeconds, 10);
+  });
+
+  it("counts commands sent through the API separately", () => {
+    assert.deepEqual(report.remoteCommands, {
+      total: 2,
+      byVerb: { pm: 1, h: 1 },
+    });
+    assert.match(
+      exportModerationReport(report, "markdown"),
+      /Commands sent through the API: 2\./
+    );
+  });
+
+  it("reports unanswered mod calls", () => {
+    assert.equal(report.modCalls.unanswered, 1);
+    assert.equal(report.modCalls.unansweredCalls[0].Caller.Username, "jane");
+  });
+});
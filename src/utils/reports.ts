@@ -0,0 +1,315 @@
+import type { TCommandLogEntry, TModCallEntry } from "../types/responses";
+import { parseCommand } from "./command-parser";
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "markdown";
+
+export type ExportOptions = {
+  /** Columns to include, in order. Defaults to every key seen in `rows`. */
+  columns?: string[];
+};
+
+type Row = Record<string, unknown>;
+
+export type ModeratorStats = {
+  UserId: string;
+  Username: string;
+  /** Commands run, including ones not related to a mod call. */
+  commands: number;
+  /** Commands per verb, e.g. `{ kick: 3, tp: 12 }`. */
+  commandsByVerb: Record<string, number>;
+  modCallsAnswered: number;
+  /** Seconds from a mod call to the answering moderator's next command. */
+  averageResponseSeconds: number | null;
+  medianResponseSeconds: number | null;
+};
+
+export type ModerationReport = {
+  /** Unix seconds covered by the report. */
+  from: number;
+  to: number;
+  moderators: ModeratorStats[];
+  modCalls: {
+    total: number;
+    answered: number;
+    unanswered: number;
+    unansweredCalls: TModCallEntry[];
+  };
+  /**
+   * Commands sent through the API (logged as `Remote Server`), which have no
+   * moderator to credit.
+   */
+  remoteCommands: { total: number; byVerb: Record<string, number> };
+};
+
+export type ModerationReportOptions = {
+  /** Unix seconds, inclusive. Defaults to the oldest entry. */
+  from?: number;
+  /** Unix seconds, exclusive. Defaults to just after the newest entry. */
+  to?: number;
+  /**
+   * How long after a mod call the answering moderator's next command still
+   * counts as the response. Defaults to 600 seconds.
+   */
+  responseWindowSeconds?: number;
+  /** Only report these moderators (user IDs). Defaults to anyone who ran a command or answered a call. */
+  moderatorIds?: Iterable<string | number>;
+};
+
+/** `":kick john rdm"` → `"kick"`. */
+export function commandVerb(command: string) {
+  return parseCommand(command).verb;
+}
+
+/**
+ * Per-moderator activity for staff reviews. The API does not say when a mod
+ * call was answered, so the response time is estimated as the time until the
+ * answering moderator's first command after the call.
+ */
+export function buildModerationReport(
+  logs: { commands?: TCommandLogEntry[]; modCalls?: TModCallEntry[] },
+  options: ModerationReportOptions = {}
+): ModerationReport {
+  const times = [...(logs.commands ?? []), ...(logs.modCalls ?? [])].map(
+    (entry) => entry.Timestamp
+  );
+  const from =
+    options.from ?? times.reduce((min, t) => Math.min(min, t), times[0] ?? 0);
+  const to = options.to ?? times.reduce((max, t) => Math.max(max, t + 1), from);
+  const inRange = (entry: { Timestamp: number }) =>
+    entry.Timestamp >= from && entry.Timestamp < to;
+  const window = options.responseWindowSeconds ?? 600;
+  const only = options.moderatorIds
+    ? new Set(Array.from(options.moderatorIds, String))
+    : undefined;
+
+  const stats = new Map<string, ModeratorStats & { responses: number[] }>();
+  const statsFor = (UserId: string, Username: string) => {
+    let entry = stats.get(UserId);
+    if (!entry) {
+      entry = {
+        UserId,
+        Username,
+        commands: 0,
+        commandsByVerb: {},
+        modCallsAnswered: 0,
+        averageResponseSeconds: null,
+        medianResponseSeconds: null,
+        responses: [],
+      };
+      stats.set(UserId, entry);
+    }
+    return entry;
+  };
+
+  // Command timestamps per moderator, oldest first, for response lookups.
+  const commandTimes = new Map<string, number[]>();
+  const remoteCommands = { total: 0, byVerb: {} as Record<string, number> };
+  const commands = (logs.commands ?? []).filter(inRange);
+  for (const entry of [...commands].sort((a, b) => a.Timestamp - b.Timestamp)) {
+    const verb = commandVerb(entry.Command) || "(empty)";
+    const { UserId } = entry;
+    if (UserId === undefined) {
+      remoteCommands.total++;
+      remoteCommands.byVerb[verb] = (remoteCommands.byVerb[verb] ?? 0) + 1;
+      continue;
+    }
+    if (only && !only.has(UserId)) continue;
+    const moderator = statsFor(UserId, entry.Username);
+    moderator.commands++;
+    moderator.commandsByVerb[verb] = (moderator.commandsByVerb[verb] ?? 0) + 1;
+    const times = commandTimes.get(UserId) ?? [];
+    times.push(entry.Timestamp);
+    commandTimes.set(UserId, times);
+  }
+
+  const modCalls = (logs.modCalls ?? []).filter(inRange);
+  const unansweredCalls: TModCallEntry[] = [];
+  for (const call of modCalls) {
+    if (!call.Moderator) {
+      unansweredCalls.push(call);
+      continue;
+    }
+    if (only && !only.has(call.Moderator.UserId)) continue;
+    const moderator = statsFor(call.Moderator.UserId, call.Moderator.Username);
+    moderator.modCallsAnswered++;
+    const next = (commandTimes.get(call.Moderator.UserId) ?? []).find(
+      (time) => time >= call.Timestamp
+    );
+    if (next !== undefined && next - call.Timestamp <= window) {
+      moderator.responses.push(next - call.Timestamp);
+    }
+  }
+
+  const moderators = [...stats.values()]
+    .map(({ responses, ...moderator }) => ({
+      ...moderator,
+      averageResponseSeconds: responses.length
+        ? responses.reduce((sum, value) => sum + value, 0) / responses.length
+        : null,
+      medianResponseSeconds: median(responses),
+    }))
+    .sort(
+      (a, b) =>
+        b.commands + b.modCallsAnswered - (a.commands + a.modCallsAnswered)
+    );
+
+  return {
+    from,
+    to,
+    moderators,
+    modCalls: {
+      total: modCalls.length,
+      answered: modCalls.length - unansweredCalls.length,
+      unanswered: unansweredCalls.length,
+      unansweredCalls,
+    },
+    remoteCommands,
+  };
+}
+
+/**
+ * Renders rows (log entries, stats, ...) in `format`. Nested objects are
+ * flattened into dotted columns (`Killer.Username`) for CSV and Markdown.
+ */
+export function exportRows(
+  rows: readonly object[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+) {
+  switch (format) {
+    case "json":
+      return JSON.stringify(rows, null, 2);
+    case "ndjson":
+      return rows.map((row) => JSON.stringify(row) + "\n").join("");
+    case "csv":
+      return toCsv(rows, options.columns);
+    case "markdown":
+      return toMarkdown(rows, options.columns);
+  }
+}
+
+/**
+ * Renders a moderation report. JSON keeps the full structure; CSV and NDJSON
+ * contain one row per moderator with a `verb.<name>` column per command verb;
+ * Markdown adds a summary and the unanswered calls.
+ */
+export function exportModerationReport(
+  report: ModerationReport,
+  format: ExportFormat
+) {
+  if (format === "json") {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const rows = moderatorRows(report.moderators);
+  if (format !== "markdown") {
+    return exportRows(rows, format);
+  }
+
+  const period = `${isoDate(report.from)} – ${isoDate(report.to)}`;
+  const { total, answered, unanswered } = report.modCalls;
+  const sections = [
+    `# Moderation report (${period})`,
+    `Mod calls: ${total} total, ${answered} answered, ${unanswered} unanswered.`,
+    `Commands sent through the API: ${report.remoteCommands.total}.`,
+    "## Moderators",
+    rows.length ? toMarkdown(rows) : "_No moderator activity._",
+  ];
+  if (report.modCalls.unansweredCalls.length) {
+    sections.push(
+      "## Unanswered mod calls",
+      toMarkdown(
+        report.modCalls.unansweredCalls.map((call) => ({
+          Time: isoDate(call.Timestamp),
+          Caller: call.Caller.Username,
+          CallerId: call.Caller.UserId,
+        }))
+      )
+    );
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+function moderatorRows(moderators: ModeratorStats[]): Row[] {
+  const verbs = [
+    ...new Set(moderators.flatMap((m) => Object.keys(m.commandsByVerb))),
+  ].sort();
+  return moderators.map(({ commandsByVerb, ...moderator }) => {
+    const row: Row = { ...moderator };
+    for (const verb of verbs) row[`verb.${verb}`] = commandsByVerb[verb] ?? 0;
+    return row;
+  });
+}
+
+function toCsv(rows: readonly object[], columns?: string[]) {
+  const flat = rows.map((row) => flatten(row));
+  const header = columns ?? columnsOf(flat);
+  const lines = [header, ...flat.map((row) => header.map((c) => row[c]))].map(
+    (cells) => cells.map(csvCell).join(",")
+  );
+  return lines.join("\r\n") + "\r\n";
+}
+
+function toMarkdown(rows: readonly object[], columns?: string[]) {
+  const flat = rows.map((row) => flatten(row));
+  const header = columns ?? columnsOf(flat);
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  return [
+    line(header.map(markdownCell)),
+    line(header.map(() => "---")),
+    ...flat.map((row) => line(header.map((c) => markdownCell(row[c])))),
+  ].join("\n");
+}
+
+/*
+  Cells are quoted when needed, and values a spreadsheet would evaluate as a
+  formula (in-game messages are user input) are prefixed with a quote.
+*/
+function csvCell(value: unknown) {
+  let text = stringify(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: unknown) {
+  return stringify(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function stringify(value: unknown) {
+  if (value == null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function flatten(value: object, prefix = "", into: Row = {}) {
+  for (const [key, inner] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (inner && typeof inner === "object" && !Array.isArray(inner)) {
+      flatten(inner, name, into);
+    } else {
+      into[name] = inner;
+    }
+  }
+  return into;
+}
+
+function columnsOf(rows: Row[]) {
+  const columns = new Set<string>();
+  for (const row of rows) for (const key of Object.keys(row)) columns.add(key);
+  return [...columns];
+}
+
+function median(values: number[]) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function isoDate(seconds: number) {
+  return new Date(seconds * 1000).toISOString().replace(".000", "");
+}